@@ -0,0 +1,77 @@
+// Service worker: precaches the app shell so the app opens and navigates without a connection.
+// Bump CACHE_VERSION when the caching strategy changes; new builds are picked up automatically.
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `joggingTracker-shell-${CACHE_VERSION}`;
+const SHELL_URLS = [
+  '/',
+  '/manifest.webmanifest',
+  '/favicon.ico',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png'
+];
+
+// Vite fingerprints the bundles, so their URLs are read from the built index.html
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+
+  const html = await (await cache.match('/')).text();
+  const assets = Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), match => match[1]);
+  await cache.addAll(assets);
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith('joggingTracker-shell-') && key !== SHELL_CACHE).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Navigations try the network first so new deploys show up, and fall back to the cached shell.
+// Every client-side route (/, /history, /jogging-detail/:sessionId, ...) is served by the same index.html.
+async function handleNavigation(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    return (await cache.match('/')) || Response.error();
+  }
+}
+
+// Fingerprinted bundles never change, so the cached copy is always good
+async function handleAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Map tiles and the sync backend are cross-origin and handled by the app itself
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith('/assets/') || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(handleAsset(request));
+  }
+});
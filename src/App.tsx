@@ -5,30 +5,41 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { DatabaseProvider } from "./contexts/DatabaseContext";
+import { PreferencesProvider } from "./contexts/PreferencesContext";
 import HomePage from "./pages/HomePage";
 import JoggingPage from "./pages/JoggingPage";
 import HistoryPage from "./pages/HistoryPage";
 import JoggingDetailPage from "./pages/JoggingDetailPage";
+import SettingsPage from "./pages/SettingsPage";
+import OfflineMapsPage from "./pages/OfflineMapsPage";
 import NotFound from "./pages/NotFound";
+import SessionRecoveryDialog from "./components/SessionRecoveryDialog";
+import BackgroundSync from "./components/BackgroundSync";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <DatabaseProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<HomePage />} />
-            <Route path="/jogging" element={<JoggingPage />} />
-            <Route path="/history" element={<HistoryPage />} />
-            <Route path="/jogging-detail/:sessionId" element={<JoggingDetailPage />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <PreferencesProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <SessionRecoveryDialog />
+            <BackgroundSync />
+            <Routes>
+              <Route path="/" element={<HomePage />} />
+              <Route path="/jogging" element={<JoggingPage />} />
+              <Route path="/history" element={<HistoryPage />} />
+              <Route path="/jogging-detail/:sessionId" element={<JoggingDetailPage />} />
+              <Route path="/settings" element={<SettingsPage />} />
+              <Route path="/offline-maps" element={<OfflineMapsPage />} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </PreferencesProvider>
     </DatabaseProvider>
   </QueryClientProvider>
 );
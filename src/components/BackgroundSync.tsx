@@ -0,0 +1,42 @@
+import React, { useEffect } from 'react';
+import { useDatabase } from '../contexts/DatabaseContext';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { RestSyncAdapter } from '../services/SyncAdapter';
+import { SyncService } from '../services/SyncService';
+
+const SYNC_INTERVAL = 5 * 60 * 1000; // in milliseconds
+
+// Syncs with the configured backend on startup, when the browser comes back online and periodically
+const BackgroundSync: React.FC = () => {
+  const { isLoading: dbLoading } = useDatabase();
+  const { preferences } = usePreferences();
+  const { syncUrl, syncToken } = preferences;
+
+  useEffect(() => {
+    if (dbLoading || !syncUrl) return;
+
+    const syncService = new SyncService(new RestSyncAdapter(syncUrl, syncToken));
+    let running = false;
+
+    const runSync = () => {
+      if (running || !navigator.onLine) return;
+      running = true;
+      syncService.sync()
+        .catch(err => console.error('Error syncing sessions:', err))
+        .finally(() => { running = false; });
+    };
+
+    runSync();
+    const interval = setInterval(runSync, SYNC_INTERVAL);
+    window.addEventListener('online', runSync);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', runSync);
+    };
+  }, [dbLoading, syncUrl, syncToken]);
+
+  return null;
+};
+
+export default BackgroundSync;
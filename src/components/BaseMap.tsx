@@ -0,0 +1,44 @@
+import React from 'react';
+import { MapContainer } from 'react-leaflet';
+import L from 'leaflet';
+import markerIcon from 'leaflet/dist/images/marker-icon.png';
+import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
+import markerShadow from 'leaflet/dist/images/marker-shadow.png';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { getTileProvider } from '../utils/mapProviders';
+import CachedTileLayer from './CachedTileLayer';
+import 'leaflet/dist/leaflet.css';
+
+// Leaflet guesses the marker icon location from its CSS, which breaks once bundled, so use the bundled images
+delete L.Icon.Default.prototype._getIconUrl;
+L.Icon.Default.mergeOptions({
+  iconRetinaUrl: markerIcon2x,
+  iconUrl: markerIcon,
+  shadowUrl: markerShadow,
+});
+
+interface BaseMapProps {
+  zoom: number;
+  center?: [number, number];
+  children?: React.ReactNode;
+}
+
+// Map with the tile provider chosen in the settings, shared by every page that shows a map
+const BaseMap: React.FC<BaseMapProps> = ({ zoom, center, children }) => {
+  const { preferences } = usePreferences();
+  const provider = getTileProvider(preferences);
+
+  return (
+    <MapContainer
+      style={{ height: '100%', width: '100%' }}
+      zoom={zoom}
+      center={center}
+      maxZoom={provider.maxZoom}
+    >
+      <CachedTileLayer url={provider.url} attribution={provider.attribution} maxZoom={provider.maxZoom} />
+      {children}
+    </MapContainer>
+  );
+};
+
+export default BaseMap;
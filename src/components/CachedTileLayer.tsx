@@ -0,0 +1,64 @@
+import React, { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { TileCacheService } from '../services/TileCacheService';
+import { TileCoords } from '../utils/tileUtils';
+
+interface CachedTileLayerProps {
+  url: string;
+  attribution?: string;
+  maxZoom?: number;
+}
+
+// Leaflet tile layer that serves tiles from IndexedDB when cached and caches every tile it fetches
+const OfflineTileLayer = L.TileLayer.extend({
+  initialize(url: string, options: object, cache: TileCacheService) {
+    L.TileLayer.prototype.initialize.call(this, url, options);
+    this._cache = cache;
+  },
+
+  createTile(coords: TileCoords, done: (error: Error | null, tile: HTMLImageElement) => void) {
+    const tile = document.createElement('img');
+    tile.alt = '';
+    tile.setAttribute('role', 'presentation');
+
+    // The zoom of the tile is the one in its URL, as this layer uses neither zoomOffset nor zoomReverse
+    this._cache.loadTile(this._url, { x: coords.x, y: coords.y, z: coords.z })
+      .then((blob: Blob) => {
+        const objectUrl = URL.createObjectURL(blob);
+        tile.onload = () => {
+          URL.revokeObjectURL(objectUrl);
+          done(null, tile);
+        };
+        tile.onerror = () => {
+          URL.revokeObjectURL(objectUrl);
+          done(new Error('Cached tile could not be decoded'), tile);
+        };
+        tile.src = objectUrl;
+      })
+      .catch((error: Error) => done(error, tile));
+
+    return tile;
+  }
+});
+
+// Drop-in replacement for react-leaflet's TileLayer that keeps working offline
+const CachedTileLayer: React.FC<CachedTileLayerProps> = ({ url, attribution, maxZoom }) => {
+  const map = useMap();
+  const { preferences } = usePreferences();
+  const { tileCacheLimit } = preferences;
+
+  useEffect(() => {
+    const options = { attribution, ...(maxZoom && { maxZoom }) };
+    const layer = new OfflineTileLayer(url, options, new TileCacheService(tileCacheLimit));
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, url, attribution, maxZoom, tileCacheLimit]);
+
+  return null;
+};
+
+export default CachedTileLayer;
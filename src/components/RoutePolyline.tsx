@@ -0,0 +1,27 @@
+import React from 'react';
+import { Polyline } from 'react-leaflet';
+import { LocationPoint } from '../types';
+
+interface RoutePolylineProps {
+  route: LocationPoint[][]; // in chunks, see RouteChunks
+  color: string;
+}
+
+// One chunk of the route; memoized, so only a chunk that changed is converted and redrawn
+const RouteChunkPolyline: React.FC<{ chunk: LocationPoint[]; color: string }> = React.memo(({ chunk, color }) => (
+  <Polyline
+    positions={chunk.map(loc => [loc.latitude, loc.longitude])}
+    pathOptions={{ color, weight: 5 }}
+  />
+));
+
+// The route of a running session, drawn chunk by chunk so a long run doesn't redraw everything on every fix
+const RoutePolyline: React.FC<RoutePolylineProps> = ({ route, color }) => (
+  <>
+    {route.map((chunk, index) => chunk.length > 1 && (
+      <RouteChunkPolyline key={index} chunk={chunk} color={color} />
+    ))}
+  </>
+);
+
+export default RoutePolyline;
@@ -0,0 +1,170 @@
+import React, { useMemo } from 'react';
+import { Area, AreaChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { useFormatters } from "@/hooks/use-formatters";
+import { LocationPoint } from '../types';
+import { buildTimeSeries, downsample } from '../utils/timeSeries';
+import { FOOT, calculatePace, formatDuration, toSpeedUnit } from '../utils/locationUtils';
+
+const MAX_CHART_POINTS = 600;
+const MAX_CHART_PACE = 30 * 60; // in seconds per unit, slower paces are shown as gaps
+
+interface SessionChartsCardProps {
+  locations: LocationPoint[];
+  onHoverIndex: (index: number | null) => void; // index into `locations`, null when not hovering
+}
+
+interface ChartMouseState {
+  activePayload?: { payload: { index: number } }[];
+}
+
+// Speed (or pace), distance and elevation over elapsed time, reporting the hovered point to the map
+const SessionChartsCard: React.FC<SessionChartsCardProps> = ({ locations, onHoverIndex }) => {
+  const { unitSystem, speedMetric, distanceUnit, unitDistance, speedUnit, elevationUnit, speedLabel } = useFormatters();
+  const isPace = speedMetric === 'pace';
+
+  const data = useMemo(() => {
+    return downsample(buildTimeSeries(locations), MAX_CHART_POINTS).map(sample => {
+      const pace = calculatePace(sample.speed, unitDistance);
+      return {
+        index: sample.index,
+        elapsed: sample.elapsed,
+        distance: sample.distance / unitDistance,
+        altitude: sample.altitude !== null
+          ? (unitSystem === 'imperial' ? sample.altitude / FOOT : sample.altitude)
+          : null,
+        speed: isPace
+          ? (pace <= MAX_CHART_PACE ? pace : null)
+          : toSpeedUnit(sample.speed, unitSystem)
+      };
+    });
+  }, [locations, unitDistance, unitSystem, isPace]);
+
+  const hasAltitude = data.some(sample => sample.altitude !== null);
+
+  const chartConfig = {
+    speed: { label: speedLabel, color: '#0066cc' },
+    distance: { label: 'Distance', color: '#2ecc71' },
+    altitude: { label: 'Elevation', color: '#8e6c4a' }
+  } satisfies ChartConfig;
+
+  const handleMouseMove = (state: ChartMouseState) => {
+    const index = state?.activePayload?.[0]?.payload.index;
+    onHoverIndex(index !== undefined ? index : null);
+  };
+
+  const xAxis = (
+    <XAxis
+      dataKey="elapsed"
+      type="number"
+      domain={['dataMin', 'dataMax']}
+      tickLine={false}
+      axisLine={false}
+      tickFormatter={(value: number) => formatDuration(value)}
+    />
+  );
+
+  const tooltip = (formatValue: (value: number) => string) => (
+    <ChartTooltip
+      content={
+        <ChartTooltipContent
+          labelFormatter={(_, payload) => formatDuration(payload?.[0]?.payload.elapsed ?? 0)}
+          formatter={(value) => formatValue(Number(value))}
+        />
+      }
+    />
+  );
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-4">
+        <p className="text-sm text-slate-500 mb-2">{speedLabel} ({speedUnit})</p>
+        <ChartContainer config={chartConfig} className="h-[180px] w-full mb-4">
+          <LineChart
+            data={data}
+            syncId="session-charts"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => onHoverIndex(null)}
+          >
+            <CartesianGrid vertical={false} />
+            {xAxis}
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={48}
+              reversed={isPace}
+              tickFormatter={(value: number) => (isPace ? formatDuration(value) : value.toFixed(0))}
+            />
+            {tooltip(value => `${isPace ? formatDuration(value) : value.toFixed(1)} ${speedUnit}`)}
+            <Line dataKey="speed" type="monotone" stroke="var(--color-speed)" strokeWidth={2} dot={false} connectNulls={false} />
+          </LineChart>
+        </ChartContainer>
+
+        <p className="text-sm text-slate-500 mb-2">Distance ({distanceUnit})</p>
+        <ChartContainer config={chartConfig} className="h-[180px] w-full">
+          <AreaChart
+            data={data}
+            syncId="session-charts"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => onHoverIndex(null)}
+          >
+            <CartesianGrid vertical={false} />
+            {xAxis}
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={48}
+              tickFormatter={(value: number) => value.toFixed(1)}
+            />
+            {tooltip(value => `${value.toFixed(2)} ${distanceUnit}`)}
+            <Area
+              dataKey="distance"
+              type="monotone"
+              stroke="var(--color-distance)"
+              fill="var(--color-distance)"
+              fillOpacity={0.2}
+              strokeWidth={2}
+            />
+          </AreaChart>
+        </ChartContainer>
+
+        {hasAltitude && (
+          <>
+            <p className="text-sm text-slate-500 mb-2 mt-4">Elevation ({elevationUnit})</p>
+            <ChartContainer config={chartConfig} className="h-[180px] w-full">
+              <AreaChart
+                data={data}
+                syncId="session-charts"
+                onMouseMove={handleMouseMove}
+                onMouseLeave={() => onHoverIndex(null)}
+              >
+                <CartesianGrid vertical={false} />
+                {xAxis}
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={48}
+                  domain={['dataMin - 5', 'dataMax + 5']}
+                  tickFormatter={(value: number) => value.toFixed(0)}
+                />
+                {tooltip(value => `${value.toFixed(0)} ${elevationUnit}`)}
+                <Area
+                  dataKey="altitude"
+                  type="monotone"
+                  stroke="var(--color-altitude)"
+                  fill="var(--color-altitude)"
+                  fillOpacity={0.2}
+                  strokeWidth={2}
+                  connectNulls
+                />
+              </AreaChart>
+            </ChartContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SessionChartsCard;
@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useDatabase } from '../contexts/DatabaseContext';
+import { JoggingService } from '../services/JoggingService';
+import { JoggingSession } from '../types';
+import { formatDuration } from '../utils/locationUtils';
+
+// Offers to resume, finalize or discard sessions left unfinished by a reload or crash
+const SessionRecoveryDialog: React.FC = () => {
+  const { isLoading: dbLoading } = useDatabase();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [pendingSessions, setPendingSessions] = useState<JoggingSession[]>([]);
+  const [elapsedTime, setElapsedTime] = useState(0);
+  const [pointCount, setPointCount] = useState(0);
+
+  const session = pendingSessions[0];
+
+  // Only check once on startup; the session being tracked later in this tab is also unfinished
+  useEffect(() => {
+    if (dbLoading) return;
+
+    const joggingService = new JoggingService();
+    joggingService.getUnfinishedSessions()
+      .then(setPendingSessions)
+      .catch(err => console.error('Error checking for unfinished sessions:', err));
+  }, [dbLoading]);
+
+  useEffect(() => {
+    if (!session) return;
+
+    const joggingService = new JoggingService();
+    joggingService.getSessionLocations(session.id)
+      .then(locations => {
+        setPointCount(locations.length);
+        setElapsedTime(joggingService.getRecoveredElapsedTime(session, locations));
+      })
+      .catch(err => console.error('Error loading unfinished session:', err));
+  }, [session]);
+
+  const next = () => setPendingSessions(prev => prev.slice(1));
+
+  const resumeSession = () => {
+    navigate('/jogging', { state: { resumeSessionId: session.id } });
+    // Any other unfinished sessions are left for the next startup
+    setPendingSessions([]);
+  };
+
+  const finalizeSession = async () => {
+    try {
+      const joggingService = new JoggingService();
+      await joggingService.finalizeSession(session.id);
+      toast({
+        title: "Session Saved",
+        description: "The interrupted session was saved from its recorded points"
+      });
+    } catch (error) {
+      console.error('Error finalizing session:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the interrupted session",
+        variant: "destructive"
+      });
+    }
+    next();
+  };
+
+  const discardSession = async () => {
+    try {
+      const joggingService = new JoggingService();
+      await joggingService.deleteSession(session.id);
+    } catch (error) {
+      console.error('Error discarding session:', error);
+      toast({
+        title: "Error",
+        description: "Failed to discard the interrupted session",
+        variant: "destructive"
+      });
+    }
+    next();
+  };
+
+  return (
+    <AlertDialog open={!!session}>
+      {session && (
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Unfinished Session Found</AlertDialogTitle>
+            <AlertDialogDescription>
+              A session started on {session.startTime.toLocaleDateString()} at {session.startTime.toLocaleTimeString()} was
+              interrupted after {formatDuration(elapsedTime)} with {pointCount} recorded points.
+              Do you want to resume it, save it as it is, or discard it?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={discardSession}>Discard</AlertDialogCancel>
+            <AlertDialogAction className="bg-secondary text-secondary-foreground hover:bg-secondary/80" onClick={finalizeSession}>
+              Save
+            </AlertDialogAction>
+            <AlertDialogAction onClick={resumeSession}>
+              Resume
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      )}
+    </AlertDialog>
+  );
+};
+
+export default SessionRecoveryDialog;
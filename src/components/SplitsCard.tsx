@@ -0,0 +1,108 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts';
+import { Card, CardContent } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { useFormatters } from "@/hooks/use-formatters";
+import { Split, getSplitExtremes } from '../utils/splitUtils';
+import { formatDuration } from '../utils/locationUtils';
+
+const FASTEST_COLOR = '#2ecc71';
+const SLOWEST_COLOR = '#e74c3c';
+const SPLIT_COLOR = '#0066cc';
+
+const chartConfig = {
+  pace: {
+    label: "Split time",
+    color: SPLIT_COLOR
+  }
+} satisfies ChartConfig;
+
+interface SplitsCardProps {
+  splits: Split[];
+}
+
+// Table and bar chart of per-unit splits with the fastest and slowest highlighted
+const SplitsCard: React.FC<SplitsCardProps> = ({ splits }) => {
+  const { fastest, slowest } = getSplitExtremes(splits);
+  const { distanceUnit, unitDistance, formatSpeedWithUnit, speedLabel } = useFormatters();
+
+  const getColor = (split: Split) => {
+    if (split === fastest) return FASTEST_COLOR;
+    if (split === slowest) return SLOWEST_COLOR;
+    return SPLIT_COLOR;
+  };
+
+  const chartData = splits.map(split => ({
+    name: split.isPartial ? `${split.index}*` : `${split.index}`,
+    pace: Math.round(split.pace),
+    split
+  }));
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-4">
+        <ChartContainer config={chartConfig} className="h-[200px] w-full mb-4">
+          <BarChart data={chartData}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="name" tickLine={false} axisLine={false} />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={48}
+              tickFormatter={(value: number) => formatDuration(value)}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value) => `${formatDuration(Number(value))} /${distanceUnit}`}
+                />
+              }
+            />
+            <Bar dataKey="pace" radius={4}>
+              {chartData.map(entry => (
+                <Cell key={entry.name} fill={getColor(entry.split)} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ChartContainer>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{distanceUnit === 'mi' ? 'Mile' : 'Km'}</TableHead>
+              <TableHead>Time</TableHead>
+              <TableHead className="text-right">Avg {speedLabel}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {splits.map(split => (
+              <TableRow
+                key={split.index}
+                className={cn(
+                  split === fastest && 'bg-green-50 font-medium',
+                  split === slowest && 'bg-red-50 font-medium'
+                )}
+              >
+                <TableCell>
+                  {split.isPartial
+                    ? `${split.index} (${(split.distance / unitDistance).toFixed(2)} ${distanceUnit})`
+                    : split.index}
+                  {split === fastest && <span className="ml-2 text-xs text-green-700">Fastest</span>}
+                  {split === slowest && <span className="ml-2 text-xs text-red-700">Slowest</span>}
+                </TableCell>
+                <TableCell>{formatDuration(split.duration)}</TableCell>
+                <TableCell className="text-right">
+                  {formatSpeedWithUnit(split.duration > 0 ? split.distance / split.duration : 0)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SplitsCard;
@@ -0,0 +1,66 @@
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { useFormatters } from "@/hooks/use-formatters";
+import { LocationPoint } from '../types';
+import { StatsAccumulator } from '../utils/statsAccumulator';
+
+export type TrimRange = [number, number]; // indexes of the first and last point to keep
+
+interface TrimEditorCardProps {
+  locations: LocationPoint[];
+  range: TrimRange;
+  saving: boolean;
+  onRangeChange: (range: TrimRange) => void;
+  onCancel: () => void;
+  onSave: () => void;
+}
+
+// Range slider over the recorded points for cutting off the start or end of a session
+const TrimEditorCard: React.FC<TrimEditorCardProps> = ({ locations, range, saving, onRangeChange, onCancel, onSave }) => {
+  const { formatDistanceWithUnit } = useFormatters();
+  const [startIndex, endIndex] = range;
+  const lastIndex = locations.length - 1;
+  const isTrimmed = startIndex > 0 || endIndex < lastIndex;
+
+  const keptDistance = useMemo(
+    () => StatsAccumulator.from(locations.slice(startIndex, endIndex + 1)).distance,
+    [locations, startIndex, endIndex]
+  );
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-4 space-y-4">
+        <p className="text-sm text-slate-500">
+          Drag the handles to cut off the start or end of the route, e.g. the walk back to the car.
+          The greyed out parts are deleted when you save.
+        </p>
+        <Slider
+          min={0}
+          max={lastIndex}
+          step={1}
+          minStepsBetweenThumbs={1}
+          value={range}
+          onValueChange={(value) => onRangeChange([value[0], value[1]])}
+        />
+        <div className="flex justify-between text-sm">
+          <span>Start {format(locations[startIndex].timestamp, 'h:mm:ss a')}</span>
+          <span className="text-slate-500">{formatDistanceWithUnit(keptDistance)} kept</span>
+          <span>End {format(locations[endIndex].timestamp, 'h:mm:ss a')}</span>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={onSave} disabled={!isTrimmed || saving}>
+            Save Trim
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrimEditorCard;
@@ -2,19 +2,21 @@
 import React, { createContext, useContext } from 'react';
 import Dexie from 'dexie';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { JoggingSession, LocationPoint } from '../types';
+import { CachedTile, CachedTileInfo, JoggingSession, LocationPoint, SyncQueueEntry, TrimUndo } from '../types';
+import { applyMigrations } from './migrations';
 
 // Create a Dexie database
 class JoggingDatabase extends Dexie {
   joggingSessions!: Dexie.Table<JoggingSession, number>;
   locationPoints!: Dexie.Table<LocationPoint, number>;
+  syncQueue!: Dexie.Table<SyncQueueEntry, number>;
+  tiles!: Dexie.Table<CachedTile, string>;
+  tileInfo!: Dexie.Table<CachedTileInfo, string>;
+  trimUndo!: Dexie.Table<TrimUndo, number>;
 
   constructor() {
     super('joggingTracker');
-    this.version(1).stores({
-      joggingSessions: '++id, startTime, endTime',
-      locationPoints: '++id, sessionId, timestamp'
-    });
+    applyMigrations(this);
   }
 }
 
@@ -0,0 +1,70 @@
+import React, { createContext, useContext, useState, useCallback } from 'react';
+import { UserPreferences } from '../types';
+
+const STORAGE_KEY = 'joggingTracker.preferences';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  unitSystem: 'metric',
+  speedMetric: 'speed',
+  autoPause: false,
+  autoPauseSpeed: 0.5, // 1.8 km/h, slower than any walk
+  autoPauseDelay: 5,
+  syncUrl: '',
+  syncToken: '',
+  tileCacheLimit: 200,
+  mapStyle: 'streets',
+  customTileUrl: '',
+  customTileAttribution: '',
+  locationSource: 'gps',
+  simulatorSessionId: null,
+  simulatorSpeed: 1,
+  simulatorNoise: 3,
+  simulatorPauses: true,
+  gpsMaxAccuracy: 50,
+  gpsSmoothing: false
+};
+
+// Read stored preferences, falling back to defaults for anything missing or unreadable
+function loadPreferences(): UserPreferences {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_PREFERENCES;
+  } catch (error) {
+    console.error('Error loading preferences:', error);
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+interface PreferencesContextType {
+  preferences: UserPreferences;
+  updatePreferences: (changes: Partial<UserPreferences>) => void;
+}
+
+const PreferencesContext = createContext<PreferencesContextType>({
+  preferences: DEFAULT_PREFERENCES,
+  updatePreferences: () => {}
+});
+
+export const usePreferences = () => useContext(PreferencesContext);
+
+export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [preferences, setPreferences] = useState<UserPreferences>(loadPreferences);
+
+  const updatePreferences = useCallback((changes: Partial<UserPreferences>) => {
+    setPreferences(prev => {
+      const next = { ...prev, ...changes };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.error('Error saving preferences:', error);
+      }
+      return next;
+    });
+  }, []);
+
+  return (
+    <PreferencesContext.Provider value={{ preferences, updatePreferences }}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
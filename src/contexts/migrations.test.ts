@@ -0,0 +1,161 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, describe, expect, it } from 'vitest';
+import { START, at } from '../test/fixtures';
+import { JoggingSession, LocationPoint } from '../types';
+import { MIGRATIONS, applyMigrations, getLatestVersion } from './migrations';
+
+const DB_NAME = 'joggingTrackerMigrationTest';
+
+// Sessions and points the way version 1 of the app stored them
+const V1_SESSIONS = [
+  {
+    id: 1,
+    startTime: at(0),
+    endTime: at(1800),
+    totalDistance: 4000,
+    autoPauses: [{ start: at(600), end: at(720) }],
+    pausedDuration: 120
+  },
+  {
+    id: 2,
+    startTime: at(3600),
+    pausedAt: at(4000),
+    pausedDuration: 0
+  },
+  {
+    id: 3,
+    startTime: at(7200),
+    endTime: at(8000),
+    duration: 700
+  },
+  {
+    id: 4,
+    startTime: at(10800),
+    endTime: at(12600),
+    autoPauses: [{ start: at(11000), end: at(11060) }],
+    pausedDuration: 300
+  }
+];
+
+const V1_POINTS = [
+  { sessionId: 1, latitude: 50, longitude: 8, timestamp: START, speed: null, accuracy: NaN, altitude: 120 },
+  { sessionId: 1, latitude: 50.001, longitude: 8, timestamp: START + 1000, speed: 3, accuracy: 5, heading: null }
+];
+
+async function seedVersion1(): Promise<void> {
+  const db = new Dexie(DB_NAME);
+  applyMigrations(db, MIGRATIONS.filter(migration => migration.version === 1));
+  await db.open();
+  await db.table('joggingSessions').bulkAdd(V1_SESSIONS);
+  await db.table('locationPoints').bulkAdd(V1_POINTS);
+  db.close();
+}
+
+async function openLatest(): Promise<Dexie> {
+  const db = new Dexie(DB_NAME);
+  applyMigrations(db);
+  await db.open();
+  return db;
+}
+
+describe('migrations', () => {
+  afterEach(async () => {
+    await Dexie.delete(DB_NAME);
+  });
+
+  it('upgrades a version 1 database to the latest version', async () => {
+    await seedVersion1();
+    const db = await openLatest();
+
+    expect(db.verno).toBe(getLatestVersion());
+    expect(db.tables.map(table => table.name).sort()).toEqual(
+      ['joggingSessions', 'locationPoints', 'syncQueue', 'tileInfo', 'tiles', 'trimUndo']
+    );
+    db.close();
+  });
+
+  it('builds pause intervals from the old pause fields (v2)', async () => {
+    await seedVersion1();
+    const db = await openLatest();
+
+    const finished = await db.table<JoggingSession>('joggingSessions').get(1);
+    expect(finished.pauses).toEqual([{ start: at(600), end: at(720), auto: true }]);
+    expect(finished).not.toHaveProperty('autoPauses');
+    expect(finished).not.toHaveProperty('pausedDuration');
+
+    const interrupted = await db.table<JoggingSession>('joggingSessions').get(2);
+    expect(interrupted.pauses).toEqual([{ start: at(4000) }]);
+    expect(interrupted).not.toHaveProperty('pausedAt');
+    db.close();
+  });
+
+  it('keeps the time paused manually as a closed pause before the start (v2)', async () => {
+    await seedVersion1();
+    const db = await openLatest();
+
+    // 300 seconds paused in total, 60 of them auto-paused
+    const session = await db.table<JoggingSession>('joggingSessions').get(4);
+    expect(session.pauses).toEqual([
+      { start: at(10800 - 240), end: at(10800) },
+      { start: at(11000), end: at(11060), auto: true }
+    ]);
+    db.close();
+  });
+
+  it('removes null and NaN sensor values from points (v3)', async () => {
+    await seedVersion1();
+    const db = await openLatest();
+
+    const [first, second] = await db.table<LocationPoint>('locationPoints').orderBy('timestamp').toArray();
+    expect(first).not.toHaveProperty('speed');
+    expect(first).not.toHaveProperty('accuracy');
+    expect(first.altitude).toBe(120);
+    expect(second).not.toHaveProperty('heading');
+    expect(second.speed).toBe(3);
+    db.close();
+  });
+
+  it('backfills the moving time of finished sessions only (v4)', async () => {
+    await seedVersion1();
+    const db = await openLatest();
+    const sessions = db.table<JoggingSession>('joggingSessions');
+
+    // 30 minutes elapsed minus the 2 minute auto-pause
+    expect((await sessions.get(1)).duration).toBe(1680);
+    expect((await sessions.get(2)).duration).toBeUndefined();
+    expect((await sessions.get(3)).duration).toBe(700);
+    // 30 minutes elapsed minus 5 minutes paused manually and automatically
+    expect((await sessions.get(4)).duration).toBe(1500);
+    db.close();
+  });
+
+  it('records when sessions last changed and adds an empty sync queue (v5)', async () => {
+    await seedVersion1();
+    const db = await openLatest();
+    const sessions = db.table<JoggingSession>('joggingSessions');
+
+    expect((await sessions.get(1)).updatedAt).toBe(at(1800).getTime());
+    expect((await sessions.get(2)).updatedAt).toBe(at(3600).getTime());
+    expect(await db.table('syncQueue').count()).toBe(0);
+    expect(await sessions.where('updatedAt').above(0).count()).toBe(4);
+    db.close();
+  });
+
+  it('adds the tile cache tables (v6)', async () => {
+    await seedVersion1();
+    const db = await openLatest();
+
+    await db.table('tiles').put({ key: 'a/1/2/3', blob: new Blob(['tile']) });
+    await db.table('tileInfo').put({ key: 'a/1/2/3', size: 4, lastAccessed: 1 });
+    expect(await db.table('tileInfo').where('lastAccessed').above(0).count()).toBe(1);
+    db.close();
+  });
+
+  it('rejects migrations that are out of order', () => {
+    const db = new Dexie('joggingTrackerInvalidOrder');
+    expect(() => applyMigrations(db, [MIGRATIONS[1], MIGRATIONS[0]])).toThrow(
+      'Migration 1 must come after version 2'
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import Dexie, { Transaction } from 'dexie';
+import { JoggingSession, LocationPoint, PauseInterval } from '../types';
+import { getElapsedTime, getPausedDuration } from '../utils/pauseUtils';
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Dexie store definitions for tables whose schema changes in this version
+  stores: Record<string, string | null>;
+  // Changes to a stored session or point, made in place. They run once inside the upgrade transaction,
+  // and on the rows of backups exported from an older version.
+  upgradeSession?: (session: JoggingSession) => void;
+  upgradePoint?: (point: LocationPoint) => void;
+}
+
+// Pause fields stored by version 1 sessions
+interface LegacyPauseFields {
+  pausedDuration?: number; // in seconds, all closed pauses including the auto-pauses
+  pausedAt?: Date;
+  autoPauses?: PauseInterval[];
+}
+
+// Optional sensor values of a location point, as older builds may have written them
+const SENSOR_FIELDS = ['speed', 'accuracy', 'altitude', 'altitudeAccuracy', 'heading'] as const;
+
+// Every schema version of the database, oldest first. Never edit a released migration;
+// add a new one with the next version number instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial sessions and location points',
+    stores: {
+      joggingSessions: '++id, startTime, endTime',
+      locationPoints: '++id, sessionId, timestamp'
+    }
+  },
+  {
+    version: 2,
+    description: 'Pause state moves into a list of pause intervals',
+    stores: {
+      joggingSessions: '++id, startTime, endTime'
+    },
+    upgradeSession: (session: JoggingSession & LegacyPauseFields) => {
+      const pauses: PauseInterval[] = (session.autoPauses || []).map(pause => ({ ...pause, auto: true }));
+
+      // Only the total of the manual pauses was kept, not when they happened. It becomes one closed
+      // pause ending at the start of the session, so it counts towards the paused time without
+      // splitting the route anywhere.
+      const manualPaused = (session.pausedDuration || 0) - getPausedDuration(pauses.filter(pause => pause.end));
+      if (manualPaused >= 1) {
+        pauses.unshift({ start: new Date(session.startTime.getTime() - manualPaused * 1000), end: session.startTime });
+      }
+
+      // A session interrupted while paused manually keeps its open pause
+      if (session.pausedAt && !pauses.some(pause => !pause.end)) {
+        pauses.push({ start: session.pausedAt });
+      }
+
+      session.pauses = pauses;
+      delete session.autoPauses;
+      delete session.pausedAt;
+      delete session.pausedDuration;
+    }
+  },
+  {
+    version: 3,
+    // Missing sensor values are stored as absent fields rather than the null or NaN
+    // the Geolocation API reports
+    description: 'Points gain a heading and drop invalid sensor values',
+    stores: {
+      locationPoints: '++id, sessionId, timestamp'
+    },
+    upgradePoint: point => {
+      for (const field of SENSOR_FIELDS) {
+        const value = point[field];
+        if (value !== undefined && (value === null || !Number.isFinite(value))) {
+          delete point[field];
+        }
+      }
+    }
+  },
+  {
+    version: 4,
+    description: 'Backfill the moving time of finished sessions saved without one',
+    stores: {
+      joggingSessions: '++id, startTime, endTime'
+    },
+    upgradeSession: session => {
+      if (!session.endTime || session.duration) return;
+
+      const pausedDuration = getPausedDuration(session.pauses, session.endTime.getTime());
+      session.duration = Math.round(Math.max(0, getElapsedTime(session) - pausedDuration));
+    }
+  },
+  {
+    version: 5,
+    description: 'Sessions record when they last changed, and changes queue up for sync',
+    stores: {
+      joggingSessions: '++id, startTime, endTime, updatedAt',
+      syncQueue: '++id, &sessionId, nextAttemptAt'
+    },
+    upgradeSession: session => {
+      session.updatedAt = (session.endTime || session.startTime).getTime();
+    }
+  },
+  {
+    version: 6,
+    description: 'Map tiles cached for offline use',
+    stores: {
+      tiles: '&key',
+      tileInfo: '&key, lastAccessed'
+    }
+  },
+  {
+    version: 7,
+    description: 'The last trim of a session can be undone after leaving the page',
+    stores: {
+      trimUndo: '&sessionId'
+    }
+  }
+];
+
+// Register the migrations on a database, checking that versions only ever increase
+export function applyMigrations(db: Dexie, migrations: Migration[] = MIGRATIONS): void {
+  let previousVersion = 0;
+
+  for (const migration of migrations) {
+    if (migration.version <= previousVersion) {
+      throw new Error(`Migration ${migration.version} must come after version ${previousVersion}`);
+    }
+    previousVersion = migration.version;
+
+    const version = db.version(migration.version).stores(migration.stores);
+    if (migration.upgradeSession || migration.upgradePoint) {
+      version.upgrade(tx => upgradeTables(tx, migration));
+    }
+  }
+}
+
+// Bring sessions and points exported from an older schema version up to the latest one, in place
+export function upgradeRows(
+  sessions: JoggingSession[],
+  points: LocationPoint[],
+  fromVersion: number,
+  migrations: Migration[] = MIGRATIONS
+): void {
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) continue;
+
+    if (migration.upgradeSession) sessions.forEach(session => migration.upgradeSession(session));
+    if (migration.upgradePoint) points.forEach(point => migration.upgradePoint(point));
+  }
+}
+
+// The schema version the app expects after all migrations have run
+export function getLatestVersion(migrations: Migration[] = MIGRATIONS): number {
+  return migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+}
+
+async function upgradeTables(tx: Transaction, migration: Migration): Promise<void> {
+  if (migration.upgradeSession) {
+    await tx.table('joggingSessions').toCollection().modify(session => migration.upgradeSession(session));
+  }
+  if (migration.upgradePoint) {
+    await tx.table('locationPoints').toCollection().modify(point => migration.upgradePoint(point));
+  }
+}
@@ -0,0 +1,39 @@
+import * as React from "react"
+
+import { usePreferences } from "@/contexts/PreferencesContext"
+import { formatDistance, formatElevation, formatPace, formatSpeed, getUnitDistance } from "@/utils/locationUtils"
+
+// Distance and speed formatting that follows the user's unit system and choice of speed or pace
+export function useFormatters() {
+  const { preferences } = usePreferences()
+  const { unitSystem, speedMetric } = preferences
+
+  return React.useMemo(() => {
+    const isPace = speedMetric === "pace"
+    const distanceUnit = unitSystem === "imperial" ? "mi" : "km"
+    const unitDistance = getUnitDistance(unitSystem)
+    const elevationUnit = unitSystem === "imperial" ? "ft" : "m"
+    const speedUnit = isPace ? `min/${distanceUnit}` : unitSystem === "imperial" ? "mph" : "km/h"
+
+    const formatDistanceValue = (meters: number) => formatDistance(meters, unitSystem)
+    const formatSpeedValue = (metersPerSecond: number) =>
+      isPace ? formatPace(metersPerSecond, unitDistance) : formatSpeed(metersPerSecond, unitSystem)
+
+    return {
+      unitSystem,
+      speedMetric,
+      distanceUnit,
+      unitDistance, // in meters, also the split distance
+      speedUnit,
+      elevationUnit,
+      speedLabel: isPace ? "Pace" : "Speed",
+      maxSpeedLabel: isPace ? "Best Pace" : "Max Speed",
+      formatDistance: formatDistanceValue,
+      formatDistanceWithUnit: (meters: number) => `${formatDistanceValue(meters)} ${distanceUnit}`,
+      formatElevationWithUnit: (meters: number) => `${formatElevation(meters, unitSystem)} ${elevationUnit}`,
+      formatSpeed: formatSpeedValue,
+      formatSpeedWithUnit: (metersPerSecond: number) =>
+        `${formatSpeedValue(metersPerSecond)} ${speedUnit}`,
+    }
+  }, [unitSystem, speedMetric])
+}
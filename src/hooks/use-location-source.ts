@@ -0,0 +1,58 @@
+import * as React from "react"
+
+import { usePreferences } from "@/contexts/PreferencesContext"
+import { BrowserLocationSource, LocationSource } from "@/services/LocationSource"
+import { JoggingService } from "@/services/JoggingService"
+import { SimulatedLocationSource, loadReplayTrack } from "@/services/SimulatedLocationSource"
+
+interface LocationSourceState {
+  source: LocationSource | null // null while a replay is loading or when it failed
+  isSimulated: boolean
+  error: string | null
+}
+
+// The location source chosen in the developer settings: the device GPS or a replay of a recording
+export function useLocationSource(): LocationSourceState {
+  const { preferences } = usePreferences()
+  const { locationSource, simulatorSessionId, simulatorSpeed, simulatorNoise, simulatorPauses } = preferences
+  const isSimulated = locationSource === "simulator"
+
+  const [state, setState] = React.useState<Omit<LocationSourceState, "isSimulated">>({ source: null, error: null })
+
+  React.useEffect(() => {
+    if (!isSimulated) {
+      setState({ source: new BrowserLocationSource(), error: null })
+      return
+    }
+
+    let cancelled = false
+    setState({ source: null, error: null })
+
+    const loadPoints = async () => {
+      if (simulatorSessionId === null) {
+        return loadReplayTrack()?.points ?? []
+      }
+      return await new JoggingService().getSessionLocations(simulatorSessionId)
+    }
+
+    loadPoints()
+      .then(points => {
+        const source = new SimulatedLocationSource(points, {
+          speedFactor: simulatorSpeed,
+          noise: simulatorNoise,
+          replayPauses: simulatorPauses,
+        })
+        if (!cancelled) setState({ source, error: null })
+      })
+      .catch(error => {
+        console.error("Error loading replay:", error)
+        if (!cancelled) setState({ source: null, error: error instanceof Error ? error.message : "Failed to load replay" })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isSimulated, simulatorSessionId, simulatorSpeed, simulatorNoise, simulatorPauses])
+
+  return { ...state, isSimulated }
+}
@@ -0,0 +1,56 @@
+import * as React from "react"
+
+import { usePreferences } from "@/contexts/PreferencesContext"
+import { TrackingEngine, TrackingEvent, TrackingSnapshot } from "@/services/TrackingEngine"
+import { LocationPoint } from "@/types"
+
+interface TrackingEngineState {
+  engine: TrackingEngine
+  snapshot: TrackingSnapshot
+  route: LocationPoint[][]
+}
+
+// A tracking engine for the lifetime of the component, re-rendering on every change.
+// The engine follows the auto-pause and GPS filter settings, and `onEvent` hears about its state transitions.
+export function useTrackingEngine(onEvent?: (event: TrackingEvent) => void): TrackingEngineState {
+  const { preferences } = usePreferences()
+  const { autoPause, autoPauseSpeed, autoPauseDelay, gpsMaxAccuracy, gpsSmoothing } = preferences
+
+  const [engine] = React.useState(() => new TrackingEngine())
+  const snapshot = React.useSyncExternalStore(engine.subscribe, engine.getSnapshot)
+  // The same chunks until the route changes, and only the last one changes, so each can go to a memoized child
+  const route = engine.getRoute()
+
+  // Always call the latest handler without re-subscribing on every render
+  const onEventRef = React.useRef(onEvent)
+  onEventRef.current = onEvent
+
+  React.useEffect(() => {
+    return engine.onEvent(event => onEventRef.current?.(event))
+  }, [engine])
+
+  React.useEffect(() => {
+    engine.setAutoPause(autoPause ? { speedThreshold: autoPauseSpeed, stopDelay: autoPauseDelay } : null)
+  }, [engine, autoPause, autoPauseSpeed, autoPauseDelay])
+
+  React.useEffect(() => {
+    engine.setGpsFilterOptions({ maxAccuracy: gpsMaxAccuracy, kalman: gpsSmoothing })
+  }, [engine, gpsMaxAccuracy, gpsSmoothing])
+
+  // The browser may discard a hidden page without warning, so save buffered points first
+  React.useEffect(() => {
+    const flushWhenHidden = () => {
+      if (document.visibilityState !== "hidden") return
+      engine.flush().catch(error => console.error("Error saving tracking data:", error))
+    }
+
+    document.addEventListener("visibilitychange", flushWhenHidden)
+    return () => document.removeEventListener("visibilitychange", flushWhenHidden)
+  }, [engine])
+
+  React.useEffect(() => {
+    return () => engine.dispose()
+  }, [engine])
+
+  return { engine, snapshot, route }
+}
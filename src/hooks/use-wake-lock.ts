@@ -0,0 +1,36 @@
+import * as React from "react"
+
+// Keep the screen on while `active`, so the phone doesn't sleep and throttle geolocation mid-run.
+// Browsers drop the lock whenever the page is hidden, so it is requested again when the page comes back.
+export function useWakeLock(active: boolean) {
+  React.useEffect(() => {
+    if (!active || !("wakeLock" in navigator)) return
+
+    let sentinel: WakeLockSentinel | null = null
+    let cancelled = false
+
+    const requestLock = async () => {
+      if (document.visibilityState !== "visible" || (sentinel && !sentinel.released)) return
+      try {
+        const lock = await navigator.wakeLock.request("screen")
+        if (cancelled) {
+          lock.release()
+        } else {
+          sentinel = lock
+        }
+      } catch (error) {
+        // Denied e.g. in battery saver mode; tracking still works, the screen may just turn off
+        console.error("Error requesting screen wake lock:", error)
+      }
+    }
+
+    requestLock()
+    document.addEventListener("visibilitychange", requestLock)
+
+    return () => {
+      cancelled = true
+      document.removeEventListener("visibilitychange", requestLock)
+      sentinel?.release()
+    }
+  }, [active])
+}
@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,14 +7,20 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { JoggingService } from '../services/JoggingService';
 import { useDatabase } from '../contexts/DatabaseContext';
 import { JoggingSession } from '../types';
-import { formatDistance, formatDuration, formatSpeed } from '../utils/locationUtils';
+import { formatDuration } from '../utils/locationUtils';
+import { parseTrackFile } from '../utils/trackParsers';
 import { useToast } from "@/hooks/use-toast";
+import { useFormatters } from "@/hooks/use-formatters";
+import { Upload } from 'lucide-react';
 
 const HistoryPage: React.FC = () => {
   const { db, isLoading: dbLoading } = useDatabase();
   const [sessions, setSessions] = useState<JoggingSession[]>([]);
   const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { formatDistanceWithUnit, formatElevationWithUnit, formatSpeedWithUnit, speedLabel, maxSpeedLabel } = useFormatters();
   
   useEffect(() => {
     if (!dbLoading) {
@@ -61,13 +67,65 @@ const HistoryPage: React.FC = () => {
     }
   };
   
+  const importFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+    
+    setImporting(true);
+    const joggingService = new JoggingService();
+    const failures: string[] = [];
+    let imported = 0;
+    
+    // Each file is parsed and written on its own so one bad file doesn't block the rest
+    for (const file of files) {
+      try {
+        const track = parseTrackFile(file.name, await file.arrayBuffer());
+        await joggingService.importTrack(track);
+        imported++;
+      } catch (error) {
+        console.error(`Error importing ${file.name}:`, error);
+        failures.push(`${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    
+    setImporting(false);
+    if (imported > 0) {
+      loadSessions();
+      toast({
+        title: "Import Complete",
+        description: `Imported ${imported} session${imported === 1 ? '' : 's'}`,
+      });
+    }
+    if (failures.length > 0) {
+      toast({
+        title: "Some files could not be imported",
+        description: failures.join('\n'),
+        variant: "destructive",
+      });
+    }
+  };
+  
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Your Jogging History</h1>
-        <Link to="/">
-          <Button variant="ghost">Back</Button>
-        </Link>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".gpx,.tcx,.fit"
+            multiple
+            className="hidden"
+            onChange={importFiles}
+          />
+          <Button variant="outline" disabled={importing} onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-1 h-4 w-4" /> {importing ? 'Importing...' : 'Import'}
+          </Button>
+          <Link to="/">
+            <Button variant="ghost">Back</Button>
+          </Link>
+        </div>
       </div>
       
       {loading ? (
@@ -110,18 +168,22 @@ const HistoryPage: React.FC = () => {
                   </div>
                 </div>
                 
-                <div className="grid grid-cols-3 gap-2 mt-2">
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-2">
                   <div className="text-center p-2 bg-slate-50 rounded">
-                    <p className="font-semibold">{formatDistance(session.totalDistance || 0)} km</p>
+                    <p className="font-semibold">{formatDistanceWithUnit(session.totalDistance || 0)}</p>
                     <p className="text-xs text-slate-500">Distance</p>
                   </div>
                   <div className="text-center p-2 bg-slate-50 rounded">
-                    <p className="font-semibold">{formatSpeed(session.averageSpeed || 0)} km/h</p>
-                    <p className="text-xs text-slate-500">Avg Speed</p>
+                    <p className="font-semibold">{formatSpeedWithUnit(session.averageSpeed || 0)}</p>
+                    <p className="text-xs text-slate-500">Avg {speedLabel}</p>
+                  </div>
+                  <div className="text-center p-2 bg-slate-50 rounded">
+                    <p className="font-semibold">{formatSpeedWithUnit(session.maxSpeed || 0)}</p>
+                    <p className="text-xs text-slate-500">{maxSpeedLabel}</p>
                   </div>
                   <div className="text-center p-2 bg-slate-50 rounded">
-                    <p className="font-semibold">{formatSpeed(session.maxSpeed || 0)} km/h</p>
-                    <p className="text-xs text-slate-500">Max Speed</p>
+                    <p className="font-semibold">{formatElevationWithUnit(session.elevationGain || 0)}</p>
+                    <p className="text-xs text-slate-500">Elev. Gain</p>
                   </div>
                 </div>
               </CardContent>
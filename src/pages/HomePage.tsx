@@ -3,15 +3,17 @@ import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { JoggingService } from '../services/JoggingService';
 import { JoggingSession } from '../types';
-import { formatDistance, formatDuration, formatSpeed } from '../utils/locationUtils';
+import { formatDuration } from '../utils/locationUtils';
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { useFormatters } from "@/hooks/use-formatters";
 import { useDatabase } from '../contexts/DatabaseContext';
 
 const HomePage: React.FC = () => {
   const { db, isLoading: dbLoading } = useDatabase();
   const [sessions, setSessions] = useState<JoggingSession[]>([]);
   const [loading, setLoading] = useState(true);
+  const { formatDistanceWithUnit, formatSpeedWithUnit, speedLabel } = useFormatters();
   
   useEffect(() => {
     if (!dbLoading) {
@@ -51,6 +53,12 @@ const HomePage: React.FC = () => {
             View History
           </Button>
         </Link>
+        
+        <Link to="/settings">
+          <Button variant="ghost" className="w-full">
+            Settings
+          </Button>
+        </Link>
       </div>
       
       <div>
@@ -71,7 +79,7 @@ const HomePage: React.FC = () => {
                     </p>
                     <div className="grid grid-cols-3 gap-2 mt-2">
                       <div className="text-center">
-                        <p className="font-semibold">{formatDistance(session.totalDistance || 0)} km</p>
+                        <p className="font-semibold">{formatDistanceWithUnit(session.totalDistance || 0)}</p>
                         <p className="text-xs text-slate-500">Distance</p>
                       </div>
                       <div className="text-center">
@@ -79,8 +87,8 @@ const HomePage: React.FC = () => {
                         <p className="text-xs text-slate-500">Duration</p>
                       </div>
                       <div className="text-center">
-                        <p className="font-semibold">{formatSpeed(session.averageSpeed || 0)} km/h</p>
-                        <p className="text-xs text-slate-500">Avg Speed</p>
+                        <p className="font-semibold">{formatSpeedWithUnit(session.averageSpeed || 0)}</p>
+                        <p className="text-xs text-slate-500">Avg {speedLabel}</p>
                       </div>
                     </div>
                   </CardContent>
@@ -1,25 +1,27 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { MapContainer, TileLayer, Polyline, Marker, useMap } from 'react-leaflet';
+import { Polyline, Marker, CircleMarker, Tooltip, useMap } from 'react-leaflet';
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { useFormatters } from "@/hooks/use-formatters";
 import { format } from 'date-fns';
 import { useDatabase } from '../contexts/DatabaseContext';
 import { JoggingService } from '../services/JoggingService';
-import { JoggingSession, LocationPoint } from '../types';
-import { formatDistance, formatDuration, formatSpeed, getSpeedColor } from '../utils/locationUtils';
-import 'leaflet/dist/leaflet.css';
+import { JoggingSession, LocationPoint, TrimUndo } from '../types';
+import { formatDuration, getSpeedColor } from '../utils/locationUtils';
+import { getSessionFileName } from '../utils/gpxUtils';
+import { getElapsedTime, getMovingTime, splitRouteAtPauses } from '../utils/pauseUtils';
+import { calculateSplits } from '../utils/splitUtils';
+import SplitsCard from '../components/SplitsCard';
+import SessionChartsCard from '../components/SessionChartsCard';
+import TrimEditorCard, { TrimRange } from '../components/TrimEditorCard';
+import BaseMap from '../components/BaseMap';
+import { downloadFile } from '../utils/fileUtils';
+import { Download, Scissors, Undo2 } from 'lucide-react';
 import L from 'leaflet';
 
-// Fix Leaflet icon issue
-delete (L.Icon.Default.prototype as any)._getIconUrl;
-L.Icon.Default.mergeOptions({
-  iconRetinaUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-icon-2x.png',
-  iconUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-icon.png',
-  shadowUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-shadow.png',
-});
-
 // Auto fit bounds component
 const FitBounds = ({ locations }: { locations: LocationPoint[] }) => {
   const map = useMap();
@@ -40,6 +42,12 @@ const JoggingDetailPage: React.FC = () => {
   const [session, setSession] = useState<JoggingSession | null>(null);
   const [locations, setLocations] = useState<LocationPoint[]>([]);
   const [loading, setLoading] = useState(true);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const [trimRange, setTrimRange] = useState<TrimRange | null>(null); // set while the trim editor is open
+  const [savingTrim, setSavingTrim] = useState(false);
+  const [trimUndo, setTrimUndo] = useState<TrimUndo | null>(null);
+  const { toast } = useToast();
+  const { distanceUnit, unitDistance, formatDistanceWithUnit, formatElevationWithUnit, formatSpeedWithUnit, speedLabel, maxSpeedLabel } = useFormatters();
   
   useEffect(() => {
     if (!dbLoading && sessionId) {
@@ -62,6 +70,9 @@ const JoggingDetailPage: React.FC = () => {
       const locationPoints = await joggingService.getSessionLocations(id);
       setLocations(locationPoints);
       
+      // The latest trim stays undoable for a week, also after leaving the page
+      setTrimUndo(await joggingService.getTrimUndo(id) ?? null);
+      
     } catch (error) {
       console.error('Error loading session data:', error);
     } finally {
@@ -69,26 +80,116 @@ const JoggingDetailPage: React.FC = () => {
     }
   };
   
-  // Render route with color segments based on speed
+  const exportGpx = async () => {
+    if (!session) return;
+    
+    try {
+      const joggingService = new JoggingService();
+      const gpx = await joggingService.exportSessionGpx(session.id);
+      downloadFile(getSessionFileName(session, 'gpx'), gpx, 'application/gpx+xml');
+    } catch (error) {
+      console.error('Error exporting session:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export GPX file",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  // Delete the points outside the trim range and recalculate the session, keeping what's needed to undo it
+  const saveTrim = async () => {
+    if (!session || !trimRange) return;
+    
+    setSavingTrim(true);
+    try {
+      const joggingService = new JoggingService();
+      const [startIndex, endIndex] = trimRange;
+      const undo = await joggingService.trimSession(
+        session.id,
+        locations[startIndex].timestamp,
+        locations[endIndex].timestamp
+      );
+      setTrimUndo(undo);
+      setTrimRange(null);
+      toast({
+        title: "Session Trimmed",
+        description: `Removed ${undo.removedPoints.length} point${undo.removedPoints.length === 1 ? '' : 's'} from the route`
+      });
+      await loadSessionData(session.id);
+    } catch (error) {
+      console.error('Error trimming session:', error);
+      toast({
+        title: "Error",
+        description: "Failed to trim session",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingTrim(false);
+    }
+  };
+  
+  const undoTrim = async () => {
+    if (!trimUndo) return;
+    
+    try {
+      const joggingService = new JoggingService();
+      await joggingService.undoTrim(trimUndo);
+      setTrimUndo(null);
+      toast({
+        title: "Trim Undone",
+        description: "The session has been restored"
+      });
+      await loadSessionData(trimUndo.sessionId);
+    } catch (error) {
+      console.error('Error undoing trim:', error);
+      toast({
+        title: "Error",
+        description: "Failed to undo the trim",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  // Find the recorded point closest to a given time
+  const findLocationAt = (time: number): LocationPoint | undefined => {
+    let closest: LocationPoint | undefined;
+    for (const point of locations) {
+      if (!closest || Math.abs(point.timestamp - time) < Math.abs(closest.timestamp - time)) {
+        closest = point;
+      }
+    }
+    return closest;
+  };
+  
+  const pauses = session?.pauses || [];
+  const splits = useMemo(
+    () => calculateSplits(locations, unitDistance, session?.pauses),
+    [locations, unitDistance, session]
+  );
+  
+  // Render route with color segments based on speed, broken at each pause
   const renderRouteSegments = () => {
     if (locations.length < 2) return null;
     
-    return locations.slice(0, -1).map((point, index) => {
-      const nextPoint = locations[index + 1];
-      const speed = nextPoint.speed || 0;
-      const color = getSpeedColor(speed);
-      
-      return (
-        <Polyline
-          key={index}
-          positions={[
-            [point.latitude, point.longitude],
-            [nextPoint.latitude, nextPoint.longitude]
-          ]}
-          pathOptions={{ color, weight: 5 }}
-        />
-      );
-    });
+    return splitRouteAtPauses(locations, pauses).flatMap((segment, segmentIndex) =>
+      segment.slice(0, -1).map((point, index) => {
+        const nextPoint = segment[index + 1];
+        const speed = nextPoint.speed || 0;
+        const color = getSpeedColor(speed);
+        
+        return (
+          <Polyline
+            key={`${segmentIndex}-${index}`}
+            positions={[
+              [point.latitude, point.longitude],
+              [nextPoint.latitude, nextPoint.longitude]
+            ]}
+            pathOptions={{ color, weight: 5 }}
+          />
+        );
+      })
+    );
   };
   
   if (loading) {
@@ -114,9 +215,26 @@ const JoggingDetailPage: React.FC = () => {
     <div className="container mx-auto px-4 py-8">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Jogging Details</h1>
-        <Link to="/history">
-          <Button variant="ghost">Back</Button>
-        </Link>
+        <div className="flex gap-2">
+          {trimUndo && (
+            <Button variant="outline" onClick={undoTrim} disabled={trimRange !== null}>
+              <Undo2 className="mr-1 h-4 w-4" /> Undo Trim
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => setTrimRange([0, locations.length - 1])}
+            disabled={!session.endTime || locations.length < 3 || trimRange !== null}
+          >
+            <Scissors className="mr-1 h-4 w-4" /> Trim
+          </Button>
+          <Button variant="outline" onClick={exportGpx} disabled={locations.length === 0}>
+            <Download className="mr-1 h-4 w-4" /> GPX
+          </Button>
+          <Link to="/history">
+            <Button variant="ghost">Back</Button>
+          </Link>
+        </div>
       </div>
       
       <div className="mb-6">
@@ -129,25 +247,43 @@ const JoggingDetailPage: React.FC = () => {
         <Card>
           <CardContent className="p-4">
             <p className="text-sm text-slate-500 mb-2">Distance</p>
-            <p className="text-2xl font-bold">{formatDistance(session.totalDistance || 0)} km</p>
+            <p className="text-2xl font-bold">{formatDistanceWithUnit(session.totalDistance || 0)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-slate-500 mb-2">Moving Time</p>
+            <p className="text-2xl font-bold">{formatDuration(getMovingTime(session))}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-slate-500 mb-2">Elapsed Time</p>
+            <p className="text-2xl font-bold">{formatDuration(getElapsedTime(session))}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-slate-500 mb-2">Average {speedLabel}</p>
+            <p className="text-2xl font-bold">{formatSpeedWithUnit(session.averageSpeed || 0)}</p>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="p-4">
-            <p className="text-sm text-slate-500 mb-2">Duration</p>
-            <p className="text-2xl font-bold">{formatDuration(session.duration || 0)}</p>
+            <p className="text-sm text-slate-500 mb-2">{maxSpeedLabel}</p>
+            <p className="text-2xl font-bold">{formatSpeedWithUnit(session.maxSpeed || 0)}</p>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="p-4">
-            <p className="text-sm text-slate-500 mb-2">Average Speed</p>
-            <p className="text-2xl font-bold">{formatSpeed(session.averageSpeed || 0)} km/h</p>
+            <p className="text-sm text-slate-500 mb-2">Elevation Gain</p>
+            <p className="text-2xl font-bold">{formatElevationWithUnit(session.elevationGain || 0)}</p>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="p-4">
-            <p className="text-sm text-slate-500 mb-2">Max Speed</p>
-            <p className="text-2xl font-bold">{formatSpeed(session.maxSpeed || 0)} km/h</p>
+            <p className="text-sm text-slate-500 mb-2">Elevation Loss</p>
+            <p className="text-2xl font-bold">{formatElevationWithUnit(session.elevationLoss || 0)}</p>
           </CardContent>
         </Card>
       </div>
@@ -156,15 +292,31 @@ const JoggingDetailPage: React.FC = () => {
       <Card className="mb-6 overflow-hidden">
         <CardContent className="p-0 h-[400px]">
           {locations.length > 0 ? (
-            <MapContainer
-              style={{ height: '100%', width: '100%' }}
-              zoom={15}
-            >
-              <TileLayer
-                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-              />
+            <BaseMap zoom={15}>
               {renderRouteSegments()}
               
+              {trimRange && (
+                <>
+                  {[locations.slice(0, trimRange[0] + 1), locations.slice(trimRange[1])]
+                    .filter(part => part.length > 1)
+                    .map((part, index) => (
+                      <Polyline
+                        key={`trimmed-${index}`}
+                        positions={part.map(point => [point.latitude, point.longitude])}
+                        pathOptions={{ color: '#94a3b8', weight: 7, opacity: 0.9 }}
+                      />
+                    ))}
+                  {trimRange.map((index, handle) => (
+                    <CircleMarker
+                      key={`trim-handle-${handle}`}
+                      center={[locations[index].latitude, locations[index].longitude]}
+                      radius={8}
+                      pathOptions={{ color: '#ffffff', fillColor: '#0f172a', fillOpacity: 1, weight: 3 }}
+                    />
+                  ))}
+                </>
+              )}
+              
               {locations.length > 0 && (
                 <Marker position={[locations[0].latitude, locations[0].longitude]} />
               )}
@@ -173,8 +325,43 @@ const JoggingDetailPage: React.FC = () => {
                 <Marker position={[locations[locations.length - 1].latitude, locations[locations.length - 1].longitude]} />
               )}
               
+              {pauses.map((pause, index) => {
+                const point = findLocationAt(pause.start.getTime());
+                return point && (
+                  <CircleMarker
+                    key={`pause-${index}`}
+                    center={[point.latitude, point.longitude]}
+                    radius={6}
+                    pathOptions={{ color: '#ffffff', fillColor: '#64748b', fillOpacity: 1, weight: 2 }}
+                  >
+                    <Tooltip>{pause.auto ? 'Auto-paused' : 'Paused'} at {format(pause.start, 'h:mm:ss a')}</Tooltip>
+                  </CircleMarker>
+                );
+              })}
+              
+              {splits.filter(split => !split.isPartial).map(split => (
+                <CircleMarker
+                  key={`split-${split.index}`}
+                  center={[split.endLatitude, split.endLongitude]}
+                  radius={4}
+                  pathOptions={{ color: '#0066cc', fillColor: '#ffffff', fillOpacity: 1, weight: 2 }}
+                >
+                  <Tooltip permanent direction="top" offset={[0, -4]}>
+                    {split.index} {distanceUnit}
+                  </Tooltip>
+                </CircleMarker>
+              ))}
+              
+              {hoveredIndex !== null && locations[hoveredIndex] && (
+                <CircleMarker
+                  center={[locations[hoveredIndex].latitude, locations[hoveredIndex].longitude]}
+                  radius={8}
+                  pathOptions={{ color: '#ffffff', fillColor: '#0066cc', fillOpacity: 1, weight: 3 }}
+                />
+              )}
+              
               <FitBounds locations={locations} />
-            </MapContainer>
+            </BaseMap>
           ) : (
             <div className="h-full flex items-center justify-center bg-slate-50">
               <p className="text-slate-500">No route data available</p>
@@ -183,6 +370,51 @@ const JoggingDetailPage: React.FC = () => {
         </CardContent>
       </Card>
       
+      {trimRange && (
+        <TrimEditorCard
+          locations={locations}
+          range={trimRange}
+          saving={savingTrim}
+          onRangeChange={setTrimRange}
+          onCancel={() => setTrimRange(null)}
+          onSave={saveTrim}
+        />
+      )}
+      
+      {locations.length > 1 && (
+        <>
+          <h2 className="text-xl font-semibold mb-4">Over Time</h2>
+          <SessionChartsCard locations={locations} onHoverIndex={setHoveredIndex} />
+        </>
+      )}
+      
+      {splits.length > 0 && (
+        <>
+          <h2 className="text-xl font-semibold mb-4">Splits</h2>
+          <SplitsCard splits={splits} />
+        </>
+      )}
+      
+      {pauses.length > 0 && (
+        <div className="bg-white p-4 rounded-lg shadow-sm mb-6">
+          <h2 className="text-lg font-semibold mb-3">Pauses</h2>
+          <div className="grid gap-2">
+            {pauses.map((pause, index) => (
+              <div key={index} className="flex justify-between text-sm">
+                <span>
+                  {format(pause.start, 'h:mm:ss a')}
+                  {pause.end && ` - ${format(pause.end, 'h:mm:ss a')}`}
+                  {pause.auto && <span className="ml-2 text-xs text-slate-500">(auto)</span>}
+                </span>
+                <span className="text-slate-500">
+                  {pause.end ? formatDuration((pause.end.getTime() - pause.start.getTime()) / 1000) : 'Not ended'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      
       <div className="bg-white p-4 rounded-lg shadow-sm mb-6">
         <h2 className="text-lg font-semibold mb-3">Speed Legend</h2>
         <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
@@ -1,43 +1,47 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { MapContainer, TileLayer, Polyline, Circle, useMap, useMapEvents } from 'react-leaflet';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { Circle, CircleMarker, useMap, useMapEvents } from 'react-leaflet';
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useFormatters } from "@/hooks/use-formatters";
+import { useWakeLock } from "@/hooks/use-wake-lock";
+import { useLocationSource } from "@/hooks/use-location-source";
+import { useTrackingEngine } from "@/hooks/use-tracking-engine";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { useDatabase } from '../contexts/DatabaseContext';
-import { JoggingService } from '../services/JoggingService';
+import { LocationSource } from '../services/LocationSource';
+import { TrackingEvent } from '../services/TrackingEngine';
+import { usePreferences } from '../contexts/PreferencesContext';
 import { LocationPoint } from '../types';
-import { Play, Pause, StopCircle, ArrowLeft } from 'lucide-react';
-import { 
-  calculateTotalDistance, 
-  calculateAverageSpeed, 
-  calculateMaxSpeed, 
-  formatDistance, 
-  formatDuration,
-  formatSpeed
-} from '../utils/locationUtils';
-import 'leaflet/dist/leaflet.css';
+import { Play, Pause, StopCircle, ArrowLeft, Save } from 'lucide-react';
+import { formatDuration } from '../utils/locationUtils';
+import BaseMap from '../components/BaseMap';
+import RoutePolyline from '../components/RoutePolyline';
 
 // LocationUpdater component to handle location events and map updates
 const LocationUpdater = ({ 
+  source,
   onLocationChange, 
   isPaused, 
-  isTracking 
+  isTracking,
+  keepWatching
 }: { 
+  source: LocationSource;
   onLocationChange: (location: GeolocationPosition) => void;
   isPaused: boolean;
   isTracking: boolean;
+  keepWatching: boolean; // keep receiving fixes while paused, e.g. to detect auto-resume
 }) => {
   const map = useMap();
   
   // Set up geolocation watching
   useEffect(() => {
-    let watchId: number;
+    let stopWatching: (() => void) | undefined;
     
-    if (isTracking && !isPaused) {
+    if (isTracking && (!isPaused || keepWatching)) {
       // Start watching position
-      watchId = navigator.geolocation.watchPosition(
+      stopWatching = source.watchPosition(
         (position) => {
           onLocationChange(position);
           
@@ -49,145 +53,166 @@ const LocationUpdater = ({
         },
         (error) => {
           console.error('Error getting location:', error);
-        },
-        { 
-          enableHighAccuracy: true, 
-          maximumAge: 0, 
-          timeout: 5000 
         }
       );
     }
     
     // Cleanup function
     return () => {
-      if (watchId) {
-        navigator.geolocation.clearWatch(watchId);
-      }
+      stopWatching?.();
     };
-  }, [isTracking, isPaused, map, onLocationChange]);
+  }, [source, isTracking, isPaused, keepWatching, map, onLocationChange]);
   
   return null;
 };
 
 const JoggingPage: React.FC = () => {
-  const { db, isLoading: dbLoading } = useDatabase();
+  const { isLoading: dbLoading } = useDatabase();
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  const { preferences } = usePreferences();
+  const { formatDistanceWithUnit, formatSpeedWithUnit, speedLabel } = useFormatters();
   const [permissionStatus, setPermissionStatus] = useState<string | null>(null);
-  const [isTracking, setIsTracking] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
-  const [sessionId, setSessionId] = useState<number | null>(null);
-  const [locations, setLocations] = useState<LocationPoint[]>([]);
-  const [currentLocation, setCurrentLocation] = useState<LocationPoint | null>(null);
-  const [elapsedTime, setElapsedTime] = useState(0);
-  const [distance, setDistance] = useState(0);
-  const [currentSpeed, setCurrentSpeed] = useState(0);
-  const [averageSpeed, setAverageSpeed] = useState(0);
-  const [maxSpeed, setMaxSpeed] = useState(0);
+  const [initialLocation, setInitialLocation] = useState<LocationPoint | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  
+  // Tell the runner about every change of the tracking state
+  const handleTrackingEvent = (event: TrackingEvent) => {
+    switch (event.type) {
+      case 'started':
+        toast({
+          title: "Tracking Started",
+          description: "Your jogging session is now being tracked"
+        });
+        break;
+      case 'restored':
+        toast({
+          title: "Tracking Resumed",
+          description: "Your interrupted jogging session has been restored"
+        });
+        break;
+      case 'paused':
+        toast(event.auto
+          ? { title: "Auto-Paused", description: "Tracking will resume when you start moving" }
+          : { title: "Tracking Paused", description: "Your jogging session is paused" });
+        break;
+      case 'resumed':
+        toast(event.auto
+          ? { title: "Tracking Resumed", description: "Movement detected, your jogging session has been resumed" }
+          : { title: "Tracking Resumed", description: "Your jogging session has been resumed" });
+        break;
+      case 'stopped':
+        toast({
+          title: "Jogging Session Saved",
+          description: `You completed ${formatDistanceWithUnit(event.distance)} in ${formatDuration(event.duration)}`
+        });
+        break;
+    }
+  };
+  
+  const { engine, snapshot, route } = useTrackingEngine(handleTrackingEvent);
+  const { elapsedTime, distance, currentSpeed, averageSpeed, autoPaused: isAutoPaused } = snapshot;
+  const isStarting = snapshot.state === 'starting';
+  const isTracking = snapshot.state !== 'idle' && !isStarting;
+  const isPaused = snapshot.state === 'paused';
+  // From pressing stop until the session is saved; the buffered points are written before the engine is stopping
+  const isStopping = isSaving || snapshot.state === 'stopping';
+  const currentLocation = snapshot.currentLocation ?? initialLocation;
   
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const startTimeRef = useRef<number | null>(null);
-  const pausedTimeRef = useRef(0);
-  const lastPauseTimeRef = useRef<number | null>(null);
+  const resumeSessionId = (location.state as { resumeSessionId?: number } | null)?.resumeSessionId;
+  
+  // Keep the screen on for the whole session, including pauses, so tracking isn't throttled
+  useWakeLock(isTracking);
+  
+  const { source: locationSource, isSimulated, error: locationSourceError } = useLocationSource();
+  
+  // Show where the runner is before tracking starts
+  const loadInitialLocation = (source: LocationSource) => {
+    source.getCurrentPosition()
+      .then((position) => {
+        setInitialLocation({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          timestamp: new Date().getTime(),
+          speed: position.coords.speed || 0,
+          accuracy: position.coords.accuracy,
+        });
+      })
+      .catch((error) => {
+        console.error('Error getting initial location:', error);
+      });
+  };
   
   // Check for geolocation permissions
   useEffect(() => {
+    if (!locationSource) return;
+    
+    // A replay needs no permission
+    if (isSimulated) {
+      setPermissionStatus('granted');
+      loadInitialLocation(locationSource);
+      return;
+    }
+    
     if (navigator.geolocation) {
       navigator.permissions.query({ name: 'geolocation' }).then((result) => {
         setPermissionStatus(result.state);
         
         // Get initial location if permission is granted
         if (result.state === 'granted') {
-          navigator.geolocation.getCurrentPosition(
-            (position) => {
-              const initialLocation: LocationPoint = {
-                latitude: position.coords.latitude,
-                longitude: position.coords.longitude,
-                timestamp: new Date().getTime(),
-                speed: position.coords.speed || 0,
-              };
-              setCurrentLocation(initialLocation);
-            },
-            (error) => {
-              console.error('Error getting initial location:', error);
-            }
-          );
+          loadInitialLocation(locationSource);
         }
       });
     } else {
       setPermissionStatus('unsupported');
     }
-  }, []);
+  }, [locationSource, isSimulated]);
   
-  // Cleanup on unmount
+  // A replay that can't be loaded leaves nothing to track
   useEffect(() => {
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
-  }, []);
-  
-  const handleLocationChange = (position: GeolocationPosition) => {
-    const newLocation: LocationPoint = {
-      latitude: position.coords.latitude,
-      longitude: position.coords.longitude,
-      timestamp: position.timestamp,
-      speed: position.coords.speed !== null ? position.coords.speed : 0,
-    };
-    
-    setCurrentLocation(newLocation);
+    if (!locationSourceError) return;
     
-    if (isTracking && !isPaused) {
-      setLocations(prev => [...prev, newLocation]);
-      
-      // Save location to database
-      if (sessionId !== null) {
-        const joggingService = new JoggingService();
-        joggingService.addLocationPoint(sessionId, newLocation)
-          .catch(err => console.error('Error saving location:', err));
-      }
-      
-      // Update stats
-      const allLocations = [...locations, newLocation];
-      const totalDistance = calculateTotalDistance(allLocations);
-      const avgSpeed = calculateAverageSpeed(allLocations);
-      const maxSpd = calculateMaxSpeed(allLocations);
-      
-      setDistance(totalDistance);
-      setCurrentSpeed(newLocation.speed || 0);
-      setAverageSpeed(avgSpeed);
-      setMaxSpeed(maxSpd);
-    }
-  };
+    toast({
+      title: "Error",
+      description: `Location simulator: ${locationSourceError}`,
+      variant: "destructive"
+    });
+  }, [locationSourceError, toast]);
   
-  const startTracking = async () => {
+  const handleLocationChange = useCallback((position: GeolocationPosition) => {
+    engine.addPosition(position);
+  }, [engine]);
+  
+  const resumeSession = useCallback(async (id: number) => {
     try {
-      // Create a new session in the database
-      const joggingService = new JoggingService();
-      const id = await joggingService.startSession();
-      setSessionId(id);
-      
-      // Start time tracking
-      startTimeRef.current = Date.now();
-      pausedTimeRef.current = 0;
-      setElapsedTime(0);
-      
-      timerRef.current = setInterval(() => {
-        if (startTimeRef.current && !isPaused) {
-          const elapsed = Math.floor((Date.now() - startTimeRef.current - pausedTimeRef.current) / 1000);
-          setElapsedTime(elapsed);
-        }
-      }, 1000);
-      
-      setIsTracking(true);
-      setIsPaused(false);
-      setLocations([]);
-      
+      await engine.restore(id);
+    } catch (error) {
+      console.error('Error resuming session:', error);
       toast({
-        title: "Tracking Started",
-        description: "Your jogging session is now being tracked"
+        title: "Error",
+        description: "Failed to resume the interrupted session",
+        variant: "destructive"
       });
+    }
+  }, [engine, toast]);
+  
+  // Resume an interrupted session handed over by the recovery dialog, once even if the effect runs again
+  // before the navigation state is cleared
+  const resumedSessionIdRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (dbLoading || resumeSessionId === undefined || snapshot.state !== 'idle') return;
+    if (resumedSessionIdRef.current === resumeSessionId) return;
+    
+    resumedSessionIdRef.current = resumeSessionId;
+    resumeSession(resumeSessionId);
+    // Clear the navigation state so a reload doesn't resume the session twice
+    navigate(location.pathname, { replace: true, state: null });
+  }, [dbLoading, resumeSessionId, snapshot.state, resumeSession, navigate, location.pathname]);
+  
+  const startTracking = async () => {
+    try {
+      await engine.start();
     } catch (error) {
       console.error('Error starting tracking:', error);
       toast({
@@ -199,63 +224,15 @@ const JoggingPage: React.FC = () => {
   };
   
   const togglePause = () => {
-    if (isPaused) {
-      // Resume tracking
-      if (lastPauseTimeRef.current) {
-        pausedTimeRef.current += (Date.now() - lastPauseTimeRef.current);
-        lastPauseTimeRef.current = null;
-      }
-      toast({
-        title: "Tracking Resumed",
-        description: "Your jogging session has been resumed"
-      });
-    } else {
-      // Pause tracking
-      lastPauseTimeRef.current = Date.now();
-      toast({
-        title: "Tracking Paused",
-        description: "Your jogging session is paused"
-      });
-    }
-    
-    setIsPaused(!isPaused);
+    engine.togglePause();
   };
   
   const stopTracking = async () => {
-    if (sessionId === null) {
-      toast({
-        title: "Error",
-        description: "Session not properly initialized",
-        variant: "destructive"
-      });
-      return;
-    }
-    
+    if (isStopping) return;
+    setIsSaving(true);
+
     try {
-      // Stop timer
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
-      
-      // Calculate final stats
-      const totalDistance = calculateTotalDistance(locations);
-      const avgSpeed = calculateAverageSpeed(locations);
-      const maxSpd = calculateMaxSpeed(locations);
-      
-      // Save session data to database
-      const joggingService = new JoggingService();
-      await joggingService.endSession(sessionId, {
-        totalDistance,
-        averageSpeed: avgSpeed,
-        maxSpeed: maxSpd,
-        duration: elapsedTime,
-      });
-      
-      toast({
-        title: "Jogging Session Saved",
-        description: `You completed ${formatDistance(totalDistance)} km in ${formatDuration(elapsedTime)}`
-      });
+      await engine.stop();
       
       // Navigate to home screen
       navigate('/');
@@ -268,9 +245,7 @@ const JoggingPage: React.FC = () => {
         variant: "destructive"
       });
     } finally {
-      setIsTracking(false);
-      setIsPaused(false);
-      setSessionId(null);
+      setIsSaving(false);
     }
   };
   
@@ -295,35 +270,36 @@ const JoggingPage: React.FC = () => {
       {/* Map area */}
       <div className="flex-grow relative">
         {currentLocation ? (
-          <MapContainer
-            style={{ height: '100%', width: '100%' }}
-            zoom={16}
-          >
-            <TileLayer
-              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-            />
+          <BaseMap zoom={16}>
+
+            {isTracking && <RoutePolyline route={route} color="#0066cc" />}
 
-            {isTracking && locations.length > 1 && (
-              <Polyline
-                positions={locations.map(loc => [loc.latitude, loc.longitude])}
-                pathOptions={{ color: '#0066cc', weight: 5 }}
+            {currentLocation?.accuracy > 0 && (
+              <Circle
+                center={[currentLocation.latitude, currentLocation.longitude]}
+                pathOptions={{ fillColor: '#0066cc', color: '#0066cc', weight: 1, opacity: 0.4, fillOpacity: 0.15 }}
+                radius={currentLocation.accuracy}
               />
             )}
 
             {currentLocation && (
-              <Circle
+              <CircleMarker
                 center={[currentLocation.latitude, currentLocation.longitude]}
                 pathOptions={{ fillColor: '#0066cc', color: '#ffffff', weight: 2, fillOpacity: 1 }}
-                radius={5}
+                radius={7}
               />
             )}
 
-            <LocationUpdater
-              onLocationChange={handleLocationChange}
-              isPaused={isPaused}
-              isTracking={isTracking}
-            />
-          </MapContainer>
+            {locationSource && (
+              <LocationUpdater
+                source={locationSource}
+                onLocationChange={handleLocationChange}
+                isPaused={isPaused}
+                isTracking={snapshot.state === 'tracking' || isPaused}
+                keepWatching={isAutoPaused}
+              />
+            )}
+          </BaseMap>
         ) : (
           <div className="h-full flex items-center justify-center bg-slate-100">
             <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
@@ -334,7 +310,7 @@ const JoggingPage: React.FC = () => {
         <div className="absolute top-4 left-4 right-4 bg-white rounded-lg shadow-md">
           <div className="grid grid-cols-2 p-4">
             <div className="text-center">
-              <p className="text-xl font-bold">{formatDistance(distance)} km</p>
+              <p className="text-xl font-bold">{formatDistanceWithUnit(distance)}</p>
               <p className="text-xs text-slate-500">Distance</p>
             </div>
             <div className="text-center">
@@ -344,14 +320,29 @@ const JoggingPage: React.FC = () => {
           </div>
           <div className="grid grid-cols-2 p-4 border-t border-slate-100">
             <div className="text-center">
-              <p className="text-xl font-bold">{formatSpeed(currentSpeed)} km/h</p>
-              <p className="text-xs text-slate-500">Current Speed</p>
+              <p className="text-xl font-bold">{formatSpeedWithUnit(currentSpeed)}</p>
+              <p className="text-xs text-slate-500">Current {speedLabel}</p>
             </div>
             <div className="text-center">
-              <p className="text-xl font-bold">{formatSpeed(averageSpeed)} km/h</p>
-              <p className="text-xs text-slate-500">Average Speed</p>
+              <p className="text-xl font-bold">{formatSpeedWithUnit(averageSpeed)}</p>
+              <p className="text-xs text-slate-500">Average {speedLabel}</p>
             </div>
           </div>
+          {snapshot.unsavedPoints > 0 && (
+            <div className="px-4 py-2 text-center text-sm font-medium text-red-700 bg-red-50 border-t border-slate-100 rounded-b-lg">
+              {snapshot.unsavedPoints} route point{snapshot.unsavedPoints === 1 ? '' : 's'} not saved yet - retrying. Keep the app open.
+            </div>
+          )}
+          {isAutoPaused && (
+            <div className="px-4 py-2 text-center text-sm font-medium text-amber-700 bg-amber-50 border-t border-slate-100 rounded-b-lg">
+              Auto-paused - start moving to resume
+            </div>
+          )}
+          {isSimulated && (
+            <div className="px-4 py-2 text-center text-sm font-medium text-violet-700 bg-violet-50 border-t border-slate-100 rounded-b-lg">
+              Simulated location - replaying at {preferences.simulatorSpeed}x
+            </div>
+          )}
         </div>
 
         {/* Back button */}
@@ -377,8 +368,12 @@ const JoggingPage: React.FC = () => {
 
       {/* Control Panel */}
       <div className="bg-white p-4 shadow-md">
-        {!isTracking ? (
-          <Button className="w-full py-6" size="lg" onClick={startTracking}>
+        {isStopping ? (
+          <Button className="w-full py-6" size="lg" disabled>
+            <Save className="mr-2 animate-pulse" /> Saving Session...
+          </Button>
+        ) : !isTracking ? (
+          <Button className="w-full py-6" size="lg" onClick={startTracking} disabled={isStarting}>
             <Play className="mr-2" /> Start Tracking
           </Button>
         ) : (
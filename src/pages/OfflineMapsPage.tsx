@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMap, useMapEvents } from 'react-leaflet';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Trash2 } from 'lucide-react';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { DownloadProgress, TileCacheService, TileCacheUsage } from '../services/TileCacheService';
+import { BoundingBox, countTilesInBounds } from '../utils/tileUtils';
+import { getTileProvider } from '../utils/mapProviders';
+import BaseMap from '../components/BaseMap';
+
+const MAX_DOWNLOAD_TILES = 5000; // keeps downloads within fair use of the public tile servers
+const MAX_DOWNLOAD_ZOOM = 17;
+const ESTIMATED_TILE_SIZE = 20 * 1024; // in bytes, a typical street map tile
+const DEFAULT_CENTER: [number, number] = [51.505, -0.09];
+
+// Reports the visible area and zoom level whenever the map moves
+const ViewportTracker = ({ onChange }: { onChange: (bounds: BoundingBox, zoom: number) => void }) => {
+  const map = useMap();
+
+  // Always report to the latest handler, so a new one doesn't report or center the map again
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const report = useCallback(() => {
+    const bounds = map.getBounds();
+    onChangeRef.current(
+      { south: bounds.getSouth(), west: bounds.getWest(), north: bounds.getNorth(), east: bounds.getEast() },
+      map.getZoom()
+    );
+  }, [map]);
+
+  useMapEvents({
+    moveend: report
+  });
+
+  useEffect(() => {
+    report();
+    // Center on the runner once, if they allow it
+    navigator.geolocation?.getCurrentPosition(
+      (position) => map.setView([position.coords.latitude, position.coords.longitude], 14),
+      () => {}
+    );
+  }, [map, report]);
+
+  return null;
+};
+
+// Format a byte count as megabytes
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const OfflineMapsPage: React.FC = () => {
+  const { preferences, updatePreferences } = usePreferences();
+  const { tileCacheLimit } = preferences;
+  const { toast } = useToast();
+  const [bounds, setBounds] = useState<BoundingBox | null>(null);
+  const [zoom, setZoom] = useState(0);
+  const provider = getTileProvider(preferences);
+  const [maxZoom, setMaxZoom] = useState(Math.min(16, provider.maxZoom));
+  const [usage, setUsage] = useState<TileCacheUsage>({ tiles: 0, bytes: 0 });
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const minZoom = Math.min(zoom, maxZoom);
+  const tileCount = bounds ? countTilesInBounds(bounds, minZoom, maxZoom) : 0;
+  const tooManyTiles = tileCount > MAX_DOWNLOAD_TILES;
+
+  // Refresh the cache usage shown below the map
+  const loadUsage = useCallback(async () => {
+    try {
+      setUsage(await new TileCacheService(tileCacheLimit).getUsage());
+    } catch (error) {
+      console.error('Error loading tile cache usage:', error);
+    }
+  }, [tileCacheLimit]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  // Cancel a running download when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const downloadArea = async () => {
+    if (!bounds || tooManyTiles) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: tileCount, failed: 0 });
+
+    try {
+      const tileCache = new TileCacheService(preferences.tileCacheLimit);
+      const result = await tileCache.downloadArea(provider.url, bounds, minZoom, maxZoom, setProgress, controller.signal);
+      if (controller.signal.aborted) return;
+
+      toast({
+        title: result.failed > 0 ? "Download Incomplete" : "Area Downloaded",
+        description: result.failed > 0
+          ? `${result.failed} of ${result.total} tiles could not be downloaded`
+          : `${result.total} tiles are available offline`,
+        variant: result.failed > 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      console.error('Error downloading map area:', error);
+      toast({
+        title: "Error",
+        description: "Failed to download map area",
+        variant: "destructive",
+      });
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      loadUsage();
+    }
+  };
+
+  // Apply a new size limit, evicting tiles right away if the cache is now too large
+  const updateLimit = async (value: string) => {
+    const limit = parseFloat(value);
+    if (!Number.isFinite(limit) || limit < 10 || limit === preferences.tileCacheLimit) return;
+
+    updatePreferences({ tileCacheLimit: limit });
+    try {
+      await new TileCacheService(limit).enforceLimit();
+      loadUsage();
+    } catch (error) {
+      console.error('Error evicting map tiles:', error);
+    }
+  };
+
+  const clearCache = async () => {
+    try {
+      await new TileCacheService(preferences.tileCacheLimit).clear();
+      loadUsage();
+    } catch (error) {
+      console.error('Error clearing tile cache:', error);
+      toast({
+        title: "Error",
+        description: "Failed to clear map cache",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Offline Maps</h1>
+        <Link to="/settings">
+          <Button variant="ghost">Back</Button>
+        </Link>
+      </div>
+
+      <p className="text-slate-500 mb-4">Move the map to the area you want to run in, then download it for use without signal.</p>
+
+      <Card className="mb-6 overflow-hidden">
+        <CardContent className="p-0 h-[350px]">
+          <BaseMap center={DEFAULT_CENTER} zoom={12}>
+            <ViewportTracker onChange={(visibleBounds, visibleZoom) => {
+              setBounds(visibleBounds);
+              setZoom(visibleZoom);
+            }} />
+          </BaseMap>
+        </CardContent>
+      </Card>
+
+      <Card className="mb-6">
+        <CardContent className="p-4 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label>Detail up to zoom level</Label>
+              <p className="text-sm text-slate-500">Zoom {minZoom} to {maxZoom}; 16 shows individual paths</p>
+            </div>
+            <Select value={String(maxZoom)} onValueChange={(value) => setMaxZoom(Number(value))}>
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 6 }, (_, i) => Math.min(MAX_DOWNLOAD_ZOOM, provider.maxZoom) - 5 + i).map(level => (
+                  <SelectItem key={level} value={String(level)}>{level}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <p className={`text-sm ${tooManyTiles ? 'text-red-600' : 'text-slate-500'}`}>
+            {tileCount} tiles, about {formatMegabytes(tileCount * ESTIMATED_TILE_SIZE)}
+            {tooManyTiles && ` — zoom in or lower the detail to stay under ${MAX_DOWNLOAD_TILES} tiles`}
+          </p>
+
+          {progress ? (
+            <div className="space-y-2">
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-slate-500">{progress.done} of {progress.total} tiles</p>
+                <Button variant="ghost" onClick={() => abortRef.current?.abort()}>Cancel</Button>
+              </div>
+            </div>
+          ) : (
+            <Button disabled={!bounds || tooManyTiles} onClick={downloadArea}>
+              <Download className="mr-1 h-4 w-4" /> Download Visible Area
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <h2 className="text-xl font-semibold mb-4">Storage</h2>
+      <Card className="mb-6">
+        <CardContent className="p-4 space-y-4">
+          <p className="text-sm text-slate-500">
+            {usage.tiles} tiles cached, {formatMegabytes(usage.bytes)} of {preferences.tileCacheLimit} MB
+          </p>
+          <div className="flex items-end justify-between gap-4">
+            <div>
+              <Label htmlFor="tile-cache-limit">Cache limit (MB)</Label>
+              <Input
+                id="tile-cache-limit"
+                type="number"
+                min={10}
+                step={10}
+                defaultValue={preferences.tileCacheLimit}
+                onBlur={(e) => updateLimit(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" disabled={progress !== null} onClick={clearCache}>
+              <Trash2 className="mr-1 h-4 w-4" /> Clear Cache
+            </Button>
+          </div>
+          <p className="text-sm text-slate-500">The least recently used tiles are removed once the cache is full.</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default OfflineMapsPage;
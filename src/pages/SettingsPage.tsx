@@ -0,0 +1,706 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent } from "@/components/ui/card";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Map, RefreshCw, Upload, Wrench } from 'lucide-react';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { BackupService, RestoreMode } from '../services/BackupService';
+import { JoggingService } from '../services/JoggingService';
+import { loadReplayTrack, saveReplayTrack } from '../services/SimulatedLocationSource';
+import { RestSyncAdapter } from '../services/SyncAdapter';
+import { SyncService } from '../services/SyncService';
+import { JoggingSession, LocationSourceType, MapStyle, SpeedMetric, UnitSystem } from '../types';
+import { formatDuration, fromSpeedUnit, toSpeedUnit } from '../utils/locationUtils';
+import { TILE_PROVIDERS, isValidTileTemplate } from '../utils/mapProviders';
+import { BackupArchive, decodeBackup, encodeBackup, getBackupFileName } from '../utils/backupUtils';
+import { downloadFile } from '../utils/fileUtils';
+import { parseTrackFile } from '../utils/trackParsers';
+import { SessionStatField, SessionStatsChange } from '../utils/sessionStats';
+import { useFormatters } from "@/hooks/use-formatters";
+
+const SettingsPage: React.FC = () => {
+  const { preferences, updatePreferences } = usePreferences();
+  const { distanceUnit, speedLabel, maxSpeedLabel, formatDistanceWithUnit, formatSpeedWithUnit, formatElevationWithUnit } = useFormatters();
+  const speedUnit = preferences.unitSystem === 'imperial' ? 'mph' : 'km/h';
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [compressBackup, setCompressBackup] = useState(true);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [pendingReplace, setPendingReplace] = useState<BackupArchive | null>(null);
+  const [pendingRepair, setPendingRepair] = useState<SessionStatsChange[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [lastPullTime, setLastPullTime] = useState(0);
+  const [replaySessions, setReplaySessions] = useState<JoggingSession[]>([]);
+  const [replayTrackName, setReplayTrackName] = useState(() => loadReplayTrack()?.name ?? null);
+
+  // Refresh the sync status shown in the Sync card
+  const loadSyncStatus = async () => {
+    const syncService = new SyncService();
+    setLastPullTime(syncService.getLastPullTime());
+    try {
+      setPendingChanges(await syncService.getPendingCount());
+    } catch (error) {
+      console.error('Error loading sync status:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadSyncStatus();
+  }, []);
+
+  // Finished sessions that the location simulator can replay
+  useEffect(() => {
+    if (preferences.locationSource !== 'simulator') return;
+
+    new JoggingService().getSessions()
+      .then(sessions => setReplaySessions(sessions.filter(session => session.endTime)))
+      .catch(error => console.error('Error loading sessions for replay:', error));
+  }, [preferences.locationSource]);
+
+  // Parse a numeric input, ignoring values that are empty or out of range
+  const updateNumber = (value: string, min: number, apply: (value: number) => void) => {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed) && parsed >= min) {
+      apply(parsed);
+    }
+  };
+
+  // Push and pull right away instead of waiting for the background sync
+  const syncNow = async () => {
+    setSyncing(true);
+    try {
+      const syncService = new SyncService(new RestSyncAdapter(preferences.syncUrl, preferences.syncToken));
+      const summary = await syncService.sync();
+      if (summary.failed > 0) {
+        toast({
+          title: "Sync Incomplete",
+          description: `${summary.failed} change${summary.failed === 1 ? '' : 's'} could not be uploaded and will be retried`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Sync Complete",
+          description: `Uploaded ${summary.pushed} and downloaded ${summary.pulled} change${summary.pulled === 1 ? '' : 's'}`,
+        });
+      }
+    } catch (error) {
+      console.error('Error syncing sessions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reach the sync server",
+        variant: "destructive",
+      });
+    } finally {
+      setSyncing(false);
+      loadSyncStatus();
+    }
+  };
+
+  // Download every session and location point as a backup archive
+  const exportBackup = async () => {
+    setBusy(true);
+    try {
+      const backupService = new BackupService();
+      const archive = await backupService.createBackup();
+      const content = await encodeBackup(archive, compressBackup);
+      downloadFile(
+        getBackupFileName(new Date(archive.exportedAt), compressBackup),
+        content,
+        compressBackup ? 'application/gzip' : 'application/json'
+      );
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export backup",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Write a validated archive into the database
+  const restoreBackup = async (archive: BackupArchive, mode: RestoreMode) => {
+    setBusy(true);
+    try {
+      const backupService = new BackupService();
+      const summary = await backupService.restoreBackup(archive, mode);
+      const details = [
+        summary.renumbered > 0 && `${summary.renumbered} renumbered to avoid an id conflict`,
+        summary.skipped > 0 && `${summary.skipped} already present and skipped`
+      ].filter(Boolean);
+      toast({
+        title: "Restore Complete",
+        description: `Restored ${summary.imported} session${summary.imported === 1 ? '' : 's'}${details.length > 0 ? ` (${details.join(', ')})` : ''}`,
+      });
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore backup",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+      loadSyncStatus();
+    }
+  };
+
+  // Recalculate every session from its points and show what would change before saving anything
+  const checkSessionStats = async () => {
+    setBusy(true);
+    try {
+      const joggingService = new JoggingService();
+      const changes = await joggingService.findStatsChanges();
+      if (changes.length > 0) {
+        setPendingRepair(changes);
+      } else {
+        toast({
+          title: "Statistics Up to Date",
+          description: "Every session matches its recorded route",
+        });
+      }
+    } catch (error) {
+      console.error('Error checking session statistics:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check session statistics",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const repairSessionStats = async (changes: SessionStatsChange[]) => {
+    setBusy(true);
+    try {
+      const joggingService = new JoggingService();
+      await joggingService.applyStatsChanges(changes);
+      toast({
+        title: "Statistics Repaired",
+        description: `Updated ${changes.length} session${changes.length === 1 ? '' : 's'}`,
+      });
+    } catch (error) {
+      console.error('Error repairing session statistics:', error);
+      toast({
+        title: "Error",
+        description: "Failed to repair session statistics",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+      loadSyncStatus();
+    }
+  };
+
+  const statLabels: Record<SessionStatField, string> = {
+    totalDistance: 'Distance',
+    duration: 'Duration',
+    averageSpeed: `Average ${speedLabel.toLowerCase()}`,
+    maxSpeed: maxSpeedLabel,
+    elevationGain: 'Elevation gain',
+    elevationLoss: 'Elevation loss'
+  };
+
+  // Format a recalculated value the same way the session pages show it
+  const formatStat = (field: SessionStatField, value: number) => {
+    switch (field) {
+      case 'totalDistance':
+        return formatDistanceWithUnit(value);
+      case 'duration':
+        return formatDuration(value);
+      case 'averageSpeed':
+      case 'maxSpeed':
+        return formatSpeedWithUnit(value);
+      case 'elevationGain':
+      case 'elevationLoss':
+        return formatElevationWithUnit(value);
+    }
+  };
+
+  // Validate the chosen file, asking for confirmation before replacing existing data
+  const selectBackupFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    let archive: BackupArchive;
+    try {
+      archive = await decodeBackup(await file.arrayBuffer());
+    } catch (error) {
+      console.error(`Error reading ${file.name}:`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read backup file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (restoreMode === 'replace') {
+      setPendingReplace(archive);
+    } else {
+      await restoreBackup(archive, 'merge');
+    }
+  };
+
+  // Use a GPX, TCX or FIT file as the simulator's replay instead of a stored session
+  const selectReplayFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const track = parseTrackFile(file.name, await file.arrayBuffer());
+      const name = track.name || file.name;
+      saveReplayTrack({ name, points: track.points });
+      setReplayTrackName(name);
+      updatePreferences({ simulatorSessionId: null });
+    } catch (error) {
+      console.error(`Error reading ${file.name}:`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read track file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Settings</h1>
+        <Link to="/">
+          <Button variant="ghost">Back</Button>
+        </Link>
+      </div>
+
+      <h2 className="text-xl font-semibold mb-4">Display</h2>
+      <Card className="mb-6">
+        <CardContent className="p-4 space-y-3">
+          <div>
+            <Label>Units</Label>
+            <p className="text-sm text-slate-500">Used for distances, speeds, paces and splits</p>
+          </div>
+          <RadioGroup
+            value={preferences.unitSystem}
+            onValueChange={(value) => updatePreferences({ unitSystem: value as UnitSystem })}
+            className="flex gap-6"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="metric" id="unit-system-metric" />
+              <Label htmlFor="unit-system-metric">Metric (km)</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="imperial" id="unit-system-imperial" />
+              <Label htmlFor="unit-system-imperial">Imperial (mi)</Label>
+            </div>
+          </RadioGroup>
+
+          <div className="pt-3 border-t border-slate-100">
+            <Label>Show speed as</Label>
+            <p className="text-sm text-slate-500">Used for live stats, history and session details</p>
+          </div>
+          <RadioGroup
+            value={preferences.speedMetric}
+            onValueChange={(value) => updatePreferences({ speedMetric: value as SpeedMetric })}
+            className="flex gap-6"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="speed" id="speed-metric-speed" />
+              <Label htmlFor="speed-metric-speed">Speed ({speedUnit})</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="pace" id="speed-metric-pace" />
+              <Label htmlFor="speed-metric-pace">Pace (min/{distanceUnit})</Label>
+            </div>
+          </RadioGroup>
+        </CardContent>
+      </Card>
+
+      <h2 className="text-xl font-semibold mb-4">Tracking</h2>
+      <Card className="mb-6">
+        <CardContent className="p-4 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="auto-pause">Auto-pause</Label>
+              <p className="text-sm text-slate-500">Pause the timer when you stop moving and resume when you start again</p>
+            </div>
+            <Switch
+              id="auto-pause"
+              checked={preferences.autoPause}
+              onCheckedChange={(checked) => updatePreferences({ autoPause: checked })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="auto-pause-speed">Stop below ({speedUnit})</Label>
+              <Input
+                id="auto-pause-speed"
+                key={preferences.unitSystem}
+                type="number"
+                min={0}
+                step={0.1}
+                disabled={!preferences.autoPause}
+                defaultValue={toSpeedUnit(preferences.autoPauseSpeed, preferences.unitSystem).toFixed(1)}
+                onChange={(e) => updateNumber(e.target.value, 0, (speed) => updatePreferences({ autoPauseSpeed: fromSpeedUnit(speed, preferences.unitSystem) }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="auto-pause-delay">After (seconds)</Label>
+              <Input
+                id="auto-pause-delay"
+                type="number"
+                min={1}
+                step={1}
+                disabled={!preferences.autoPause}
+                defaultValue={preferences.autoPauseDelay}
+                onChange={(e) => updateNumber(e.target.value, 1, (seconds) => updatePreferences({ autoPauseDelay: seconds }))}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <h2 className="text-xl font-semibold mb-4">Map</h2>
+      <Card className="mb-6">
+        <CardContent className="p-4 space-y-3">
+          <div>
+            <Label>Map style</Label>
+            <p className="text-sm text-slate-500">Used by the live map, session routes and offline maps</p>
+          </div>
+          <RadioGroup
+            value={preferences.mapStyle}
+            onValueChange={(value) => updatePreferences({ mapStyle: value as MapStyle })}
+            className="grid grid-cols-2 gap-3"
+          >
+            {TILE_PROVIDERS.map(provider => (
+              <div key={provider.id} className="flex items-center gap-2">
+                <RadioGroupItem value={provider.id} id={`map-style-${provider.id}`} />
+                <Label htmlFor={`map-style-${provider.id}`}>{provider.name}</Label>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="custom" id="map-style-custom" />
+              <Label htmlFor="map-style-custom">Custom</Label>
+            </div>
+          </RadioGroup>
+
+          {preferences.mapStyle === 'custom' && (
+            <div className="pt-3 border-t border-slate-100 space-y-3">
+              <div>
+                <Label htmlFor="custom-tile-url">Tile URL template</Label>
+                <Input
+                  id="custom-tile-url"
+                  placeholder="https://{s}.tile.example.org/{z}/{x}/{y}.png"
+                  defaultValue={preferences.customTileUrl}
+                  onBlur={(e) => updatePreferences({ customTileUrl: e.target.value.trim() })}
+                />
+                {preferences.customTileUrl && !isValidTileTemplate(preferences.customTileUrl) && (
+                  <p className="text-sm text-red-600 mt-1">The template needs an http(s) URL with {'{z}'}, {'{x}'} and {'{y}'}; showing Streets instead</p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="custom-tile-attribution">Attribution</Label>
+                <Input
+                  id="custom-tile-attribution"
+                  placeholder="© Map data providers"
+                  defaultValue={preferences.customTileAttribution}
+                  onBlur={(e) => updatePreferences({ customTileAttribution: e.target.value.trim() })}
+                />
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <h2 className="text-xl font-semibold mb-4">Offline Maps</h2>
+      <Card className="mb-6">
+        <CardContent className="p-4 flex items-center justify-between gap-4">
+          <p className="text-sm text-slate-500">Maps you have viewed are cached automatically. Download an area in advance to run without signal.</p>
+          <Link to="/offline-maps">
+            <Button variant="outline">
+              <Map className="mr-1 h-4 w-4" /> Manage
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+
+      <h2 className="text-xl font-semibold mb-4">Sync</h2>
+      <Card className="mb-6">
+        <CardContent className="p-4 space-y-4">
+          <p className="text-sm text-slate-500">Upload finished sessions to your team's server and download sessions recorded elsewhere</p>
+          <div>
+            <Label htmlFor="sync-url">Server URL</Label>
+            <Input
+              id="sync-url"
+              type="url"
+              placeholder="https://example.com/api"
+              defaultValue={preferences.syncUrl}
+              onBlur={(e) => updatePreferences({ syncUrl: e.target.value.trim() })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="sync-token">Access token</Label>
+            <Input
+              id="sync-token"
+              type="password"
+              defaultValue={preferences.syncToken}
+              onBlur={(e) => updatePreferences({ syncToken: e.target.value.trim() })}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-slate-500">
+              {pendingChanges} change{pendingChanges === 1 ? '' : 's'} waiting to upload
+              {lastPullTime > 0 && ` · last synced ${new Date(lastPullTime).toLocaleString()}`}
+            </p>
+            <Button variant="outline" disabled={!preferences.syncUrl || syncing} onClick={syncNow}>
+              <RefreshCw className={`mr-1 h-4 w-4 ${syncing ? 'animate-spin' : ''}`} /> Sync Now
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <h2 className="text-xl font-semibold mb-4">Data</h2>
+      <Card className="mb-6">
+        <CardContent className="p-4 space-y-4">
+          <div>
+            <Label>Backup</Label>
+            <p className="text-sm text-slate-500">Download all sessions and routes as one file, e.g. before clearing browser data</p>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="compress-backup"
+                checked={compressBackup}
+                onCheckedChange={setCompressBackup}
+              />
+              <Label htmlFor="compress-backup">Compress (gzip)</Label>
+            </div>
+            <Button variant="outline" disabled={busy} onClick={exportBackup}>
+              <Download className="mr-1 h-4 w-4" /> Export Backup
+            </Button>
+          </div>
+
+          <div className="pt-3 border-t border-slate-100">
+            <Label>Restore</Label>
+            <p className="text-sm text-slate-500">Load sessions from a backup file</p>
+          </div>
+          <RadioGroup
+            value={restoreMode}
+            onValueChange={(value) => setRestoreMode(value as RestoreMode)}
+            className="flex gap-6"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="merge" id="restore-mode-merge" />
+              <Label htmlFor="restore-mode-merge">Merge with existing</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="replace" id="restore-mode-replace" />
+              <Label htmlFor="restore-mode-replace">Replace everything</Label>
+            </div>
+          </RadioGroup>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.gz,application/json,application/gzip"
+            className="hidden"
+            onChange={selectBackupFile}
+          />
+          <Button variant="outline" disabled={busy} onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-1 h-4 w-4" /> Restore Backup
+          </Button>
+
+          <div className="pt-3 border-t border-slate-100">
+            <Label>Repair statistics</Label>
+            <p className="text-sm text-slate-500">Recalculate distances, times and speeds from the recorded routes, e.g. for sessions saved by older versions or after a crash. You can review the changes before they are saved.</p>
+          </div>
+          <Button variant="outline" disabled={busy} onClick={checkSessionStats}>
+            <Wrench className="mr-1 h-4 w-4" /> Check Sessions
+          </Button>
+        </CardContent>
+      </Card>
+
+      <h2 className="text-xl font-semibold mb-4">Developer</h2>
+      <Card className="mb-6">
+        <CardContent className="p-4 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="gps-smoothing">Smooth GPS positions</Label>
+              <p className="text-sm text-slate-500">Average out position noise while tracking; routes lag slightly behind in turns</p>
+            </div>
+            <Switch
+              id="gps-smoothing"
+              checked={preferences.gpsSmoothing}
+              onCheckedChange={(checked) => updatePreferences({ gpsSmoothing: checked })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="gps-max-accuracy">Drop GPS fixes less accurate than (m)</Label>
+            <Input
+              id="gps-max-accuracy"
+              type="number"
+              min="5"
+              step="5"
+              defaultValue={preferences.gpsMaxAccuracy}
+              onBlur={(e) => updateNumber(e.target.value, 5, (value) => updatePreferences({ gpsMaxAccuracy: value }))}
+            />
+          </div>
+
+          <div className="pt-3 border-t border-slate-100">
+            <Label>Location source</Label>
+            <p className="text-sm text-slate-500">Replay a recorded run instead of using GPS, e.g. to try out tracking indoors</p>
+          </div>
+          <RadioGroup
+            value={preferences.locationSource}
+            onValueChange={(value) => updatePreferences({ locationSource: value as LocationSourceType })}
+            className="flex gap-6"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="gps" id="location-source-gps" />
+              <Label htmlFor="location-source-gps">Device GPS</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="simulator" id="location-source-simulator" />
+              <Label htmlFor="location-source-simulator">Simulator</Label>
+            </div>
+          </RadioGroup>
+
+          {preferences.locationSource === 'simulator' && (
+            <>
+              <div className="pt-3 border-t border-slate-100">
+                <Label>Replay</Label>
+                <div className="flex items-center gap-2 mt-1">
+                  <Select
+                    value={preferences.simulatorSessionId === null ? 'file' : String(preferences.simulatorSessionId)}
+                    onValueChange={(value) => updatePreferences({ simulatorSessionId: value === 'file' ? null : Number(value) })}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Choose a session" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="file">{replayTrackName ? `File: ${replayTrackName}` : 'No file loaded'}</SelectItem>
+                      {replaySessions.map(session => (
+                        <SelectItem key={session.id} value={String(session.id)}>
+                          {new Date(session.startTime).toLocaleString()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <input
+                    ref={replayInputRef}
+                    type="file"
+                    accept=".gpx,.tcx,.fit"
+                    className="hidden"
+                    onChange={selectReplayFile}
+                  />
+                  <Button variant="outline" onClick={() => replayInputRef.current?.click()}>
+                    <Upload className="mr-1 h-4 w-4" /> Load File
+                  </Button>
+                </div>
+              </div>
+              <div className="flex gap-4">
+                <div className="flex-1">
+                  <Label>Replay speed</Label>
+                  <Select
+                    value={String(preferences.simulatorSpeed)}
+                    onValueChange={(value) => updatePreferences({ simulatorSpeed: Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[1, 2, 5, 10].map(factor => (
+                        <SelectItem key={factor} value={String(factor)}>{factor}x</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex-1">
+                  <Label htmlFor="simulator-noise">GPS noise (m)</Label>
+                  <Input
+                    id="simulator-noise"
+                    type="number"
+                    min="0"
+                    step="1"
+                    defaultValue={preferences.simulatorNoise}
+                    onBlur={(e) => updateNumber(e.target.value, 0, (value) => updatePreferences({ simulatorNoise: value }))}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="simulator-pauses"
+                  checked={preferences.simulatorPauses}
+                  onCheckedChange={(checked) => updatePreferences({ simulatorPauses: checked })}
+                />
+                <Label htmlFor="simulator-pauses">Replay pauses (otherwise long stops are skipped)</Label>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={pendingReplace !== null} onOpenChange={(open) => !open && setPendingReplace(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace All Data</AlertDialogTitle>
+            <AlertDialogDescription>
+              This deletes every session on this device and restores the {pendingReplace?.sessions.length} session{pendingReplace?.sessions.length === 1 ? '' : 's'} from the backup. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => restoreBackup(pendingReplace, 'replace')}>
+              Replace
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={pendingRepair !== null} onOpenChange={(open) => !open && setPendingRepair(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Repair Statistics</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRepair?.length} session{pendingRepair?.length === 1 ? '' : 's'} differ{pendingRepair?.length === 1 ? 's' : ''} from {pendingRepair?.length === 1 ? 'its' : 'their'} recorded route. Save the recalculated values?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="max-h-72 overflow-y-auto space-y-3">
+            {pendingRepair?.map(({ session, differences }) => (
+              <div key={session.id} className="text-sm">
+                <p className="font-medium">{new Date(session.startTime).toLocaleString()}</p>
+                {differences.map(({ field, before, after }) => (
+                  <p key={field} className="text-slate-500">
+                    {statLabels[field]}: {formatStat(field, before)} → {formatStat(field, after)}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => repairSessionStats(pendingRepair)}>
+              Save Changes
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default SettingsPage;
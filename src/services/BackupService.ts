@@ -0,0 +1,94 @@
+import db from '../contexts/DatabaseContext';
+import { getLatestVersion } from '../contexts/migrations';
+import { LocationPoint } from '../types';
+import { BACKUP_FORMAT, BACKUP_VERSION, BackupArchive } from '../utils/backupUtils';
+import { SyncService } from './SyncService';
+
+// 'merge' keeps existing sessions, 'replace' deletes everything before restoring
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  imported: number; // sessions added
+  renumbered: number; // sessions added under a new id because their id was taken
+  skipped: number; // sessions that were already in the database
+}
+
+export class BackupService {
+  // Collect every session and location point into an archive
+  async createBackup(): Promise<BackupArchive> {
+    return await db.transaction('r', db.joggingSessions, db.locationPoints, async () => {
+      const sessions = await db.joggingSessions.toArray();
+      const locationPoints = await db.locationPoints.toArray();
+
+      return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        schemaVersion: getLatestVersion(),
+        exportedAt: new Date().toISOString(),
+        sessions,
+        locationPoints
+      };
+    });
+  }
+
+  // Write an archive into the database in a single transaction and queue the new sessions for sync.
+  // Replacing doesn't queue deletes, so restoring on one device never removes sessions from the backend.
+  async restoreBackup(archive: BackupArchive, mode: RestoreMode): Promise<RestoreSummary> {
+    const pointsBySession = new Map<number, LocationPoint[]>();
+    for (const point of archive.locationPoints) {
+      const points = pointsBySession.get(point.sessionId) || [];
+      points.push(point);
+      pointsBySession.set(point.sessionId, points);
+    }
+
+    const restoredIds: number[] = [];
+    const result = await db.transaction('rw', db.joggingSessions, db.locationPoints, db.trimUndo, async () => {
+      if (mode === 'replace') {
+        await db.joggingSessions.clear();
+        await db.locationPoints.clear();
+        await db.trimUndo.clear();
+      }
+
+      const summary: RestoreSummary = { imported: 0, renumbered: 0, skipped: 0 };
+
+      for (const session of archive.sessions) {
+        const points = pointsBySession.get(session.id) || [];
+        const existing = await db.joggingSessions.get(session.id);
+
+        // The same id and start time means this session was restored or recorded here before
+        if (existing && existing.startTime.getTime() === session.startTime.getTime()) {
+          summary.skipped++;
+          continue;
+        }
+
+        let sessionId = session.id;
+        if (existing) {
+          while (await db.joggingSessions.get(sessionId)) {
+            sessionId++;
+          }
+          summary.renumbered++;
+        }
+
+        // Sessions from archives without a change time count as changed when they ended
+        await db.joggingSessions.add({
+          ...session,
+          id: sessionId,
+          updatedAt: session.updatedAt ?? (session.endTime || session.startTime).getTime()
+        });
+        await db.locationPoints.bulkAdd(
+          points.map(({ id, ...point }) => ({ ...point, sessionId }))
+        );
+        restoredIds.push(sessionId);
+        summary.imported++;
+      }
+
+      return summary;
+    });
+
+    const syncService = new SyncService();
+    for (const sessionId of restoredIds) {
+      await syncService.queueChange(sessionId, 'upsert');
+    }
+    return result;
+  }
+}
@@ -0,0 +1,121 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import db from '../contexts/DatabaseContext';
+import { START, route } from '../test/fixtures';
+import { JoggingSession } from '../types';
+import { JoggingService } from './JoggingService';
+
+async function addSession(changes: Partial<JoggingSession>): Promise<void> {
+  await db.joggingSessions.add({ id: 1, startTime: new Date(START), endTime: new Date(START + 1800000), ...changes });
+  // A point a minute over 30 minutes
+  await db.locationPoints.bulkAdd(route(1800, 60, { sessionId: 1 }));
+}
+
+describe('JoggingService.trimSession', () => {
+  const service = new JoggingService();
+
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('derives the moving time of the kept part from its pauses', async () => {
+    await addSession({
+      duration: 1500,
+      pauses: [
+        { start: new Date(START + 300000), end: new Date(START + 600000) },
+        { start: new Date(START + 1500000), end: new Date(START + 1560000) }
+      ]
+    });
+
+    // Cut off the last ten minutes, including the second pause
+    await service.trimSession(1, START, START + 1200000);
+
+    const trimmed = await service.getSession(1);
+    expect(trimmed.duration).toBe(900);
+    expect(trimmed.pauses).toHaveLength(1);
+  });
+
+  it('takes the cut-off time off the stored moving time of a session without pause records', async () => {
+    await addSession({ duration: 1500 });
+
+    await service.trimSession(1, START + 300000, START + 1800000);
+
+    const trimmed = await service.getSession(1);
+    expect(trimmed.duration).toBe(1200);
+    expect(trimmed.startTime).toEqual(new Date(START + 300000));
+  });
+
+  it('keeps the last trim undoable until it is undone', async () => {
+    await addSession({ duration: 1500 });
+
+    await service.trimSession(1, START + 300000, START + 1800000);
+    expect(await db.locationPoints.count()).toBe(26);
+
+    // E.g. after leaving the page and coming back
+    const undo = await service.getTrimUndo(1);
+    expect(undo.removedPoints).toHaveLength(5);
+
+    await service.undoTrim(undo);
+    expect((await service.getSession(1)).duration).toBe(1500);
+    expect(await db.locationPoints.count()).toBe(31);
+    expect(await service.getTrimUndo(1)).toBeUndefined();
+  });
+
+  it('replaces the undo of an earlier trim', async () => {
+    await addSession({ duration: 1500 });
+
+    await service.trimSession(1, START + 300000, START + 1800000);
+    await service.trimSession(1, START + 300000, START + 1200000);
+
+    const undo = await service.getTrimUndo(1);
+    expect(undo.session.startTime).toEqual(new Date(START + 300000));
+    expect(undo.removedPoints).toHaveLength(10);
+  });
+
+  it('drops the undo once it is a week old', async () => {
+    await addSession({ duration: 1500 });
+    await service.trimSession(1, START + 300000, START + 1800000);
+
+    // Only the clock is faked, the database still needs real timers
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 8 * 24 * 60 * 60 * 1000);
+
+    expect(await service.getTrimUndo(1)).toBeUndefined();
+    expect(await db.trimUndo.count()).toBe(0);
+  });
+});
+
+describe('JoggingService.importTrack', () => {
+  const service = new JoggingService();
+
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('saves the session and its points together', async () => {
+    const points = route(1800, 60);
+
+    const id = await service.importTrack({ format: 'gpx', points });
+
+    expect((await service.getSession(id)).totalDistance).toBeCloseTo(5400, -1);
+    expect(await service.getSessionLocations(id)).toHaveLength(points.length);
+  });
+
+  it('leaves no session behind when its points cannot be saved', async () => {
+    vi.spyOn(db.locationPoints, 'bulkAdd').mockRejectedValueOnce(new Error('quota exceeded'));
+
+    await expect(service.importTrack({ format: 'gpx', points: route(1800, 60) })).rejects.toThrow('quota exceeded');
+
+    expect(await db.joggingSessions.count()).toBe(0);
+    expect(await db.locationPoints.count()).toBe(0);
+    expect(await db.syncQueue.count()).toBe(0);
+  });
+});
@@ -1,24 +1,44 @@
 
 import db from '../contexts/DatabaseContext';
-import { JoggingSession, LocationPoint } from '../types';
+import { JoggingSession, LocationPoint, PauseInterval, TrimUndo } from '../types';
+import { sessionToGpx } from '../utils/gpxUtils';
+import { ParsedTrack } from '../utils/trackParsers';
+import { calculateAverageSpeed, calculateElevationChange, fillMissingSpeeds } from '../utils/locationUtils';
+import { clipPauses, closePauses, getOpenPause, getPausedDuration, hasPauseRecords } from '../utils/pauseUtils';
+import { SessionStatsChange, computeSessionStats, diffSessionStats } from '../utils/sessionStats';
+import { StatsAccumulator } from '../utils/statsAccumulator';
+import { SyncService } from './SyncService';
+
+const TRIM_UNDO_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // in milliseconds, a trim can be undone for a week
+
+// Whether a trim is too old to be undone
+function isTrimUndoExpired(undo: TrimUndo): boolean {
+  return Date.now() - undo.trimmedAt > TRIM_UNDO_MAX_AGE;
+}
 
 export class JoggingService {
   // Start a new jogging session
   async startSession(): Promise<number> {
     return await db.joggingSessions.add({
       id: Date.now(),
-      startTime: new Date()
+      startTime: new Date(),
+      pauses: [],
+      updatedAt: Date.now()
     });
   }
 
-  // Add a location point to the current session
-  async addLocationPoint(sessionId: number, point: LocationPoint): Promise<number> {
-    return await db.locationPoints.add({
-      ...point,
-      sessionId
+  // Add a batch of location points to the current session; either all of them are stored or none
+  async addLocationPoints(sessionId: number, points: LocationPoint[]): Promise<void> {
+    await db.transaction('rw', db.locationPoints, async () => {
+      await db.locationPoints.bulkAdd(points.map(point => ({ ...point, sessionId })));
     });
   }
 
+  // Persist the pause intervals so they survive an interrupted session
+  async updatePauses(sessionId: number, pauses: PauseInterval[]): Promise<void> {
+    await db.joggingSessions.update(sessionId, { pauses, updatedAt: Date.now() });
+  }
+
   // End a jogging session
   async endSession(sessionId: number, stats: Partial<JoggingSession>): Promise<void> {
     await db.joggingSessions.update(sessionId, {
@@ -26,8 +46,13 @@ export class JoggingService {
       totalDistance: stats.totalDistance || 0,
       averageSpeed: stats.averageSpeed || 0,
       maxSpeed: stats.maxSpeed || 0,
-      duration: stats.duration || 0
+      elevationGain: stats.elevationGain || 0,
+      elevationLoss: stats.elevationLoss || 0,
+      duration: stats.duration || 0,
+      ...(stats.pauses && { pauses: closePauses(stats.pauses, new Date()) }),
+      updatedAt: Date.now()
     });
+    await new SyncService().queueChange(sessionId, 'upsert');
   }
 
   // Get all jogging sessions
@@ -36,6 +61,56 @@ export class JoggingService {
     return sessions;
   }
 
+  // Get sessions that were never ended, e.g. because the tab was closed mid-run
+  async getUnfinishedSessions(): Promise<JoggingSession[]> {
+    return await db.joggingSessions.filter(session => !session.endTime).toArray();
+  }
+
+  // Get the time of the last recorded activity of an unfinished session
+  getLastActivityTime(session: JoggingSession, locations: LocationPoint[]): number {
+    const lastPoint = locations[locations.length - 1];
+    const openPause = getOpenPause(session.pauses);
+    return Math.max(
+      session.startTime.getTime(),
+      lastPoint?.timestamp ?? 0,
+      openPause?.start.getTime() ?? 0
+    );
+  }
+
+  // Get the active (unpaused) time of an unfinished session in seconds, up to its last recorded activity
+  getRecoveredElapsedTime(session: JoggingSession, locations: LocationPoint[]): number {
+    const lastActivity = this.getLastActivityTime(session, locations);
+    const elapsed = (lastActivity - session.startTime.getTime()) / 1000 - getPausedDuration(session.pauses, lastActivity);
+    return Math.max(0, Math.floor(elapsed));
+  }
+
+  // Finalize an unfinished session from its stored location points
+  async finalizeSession(sessionId: number): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const locations = await this.getSessionLocations(sessionId);
+    const endTime = new Date(this.getLastActivityTime(session, locations));
+    const stats = StatsAccumulator.from(locations);
+    const elevation = calculateElevationChange(locations);
+    const duration = this.getRecoveredElapsedTime(session, locations);
+
+    await db.joggingSessions.update(sessionId, {
+      endTime,
+      totalDistance: stats.distance,
+      averageSpeed: calculateAverageSpeed(stats.distance, duration),
+      maxSpeed: stats.maxSpeed,
+      elevationGain: elevation.gain,
+      elevationLoss: elevation.loss,
+      duration,
+      pauses: closePauses(session.pauses, endTime),
+      updatedAt: Date.now()
+    });
+    await new SyncService().queueChange(sessionId, 'upsert');
+  }
+
   // Get location points for a specific session
   async getSessionLocations(sessionId: number): Promise<LocationPoint[]> {
     return await db.locationPoints
@@ -49,9 +124,179 @@ export class JoggingService {
     return await db.joggingSessions.get(sessionId);
   }
 
+  // Export a jogging session and its route as a GPX 1.1 document
+  async exportSessionGpx(sessionId: number): Promise<string> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const locations = await this.getSessionLocations(sessionId);
+    return sessionToGpx(session, locations);
+  }
+
+  // Import a parsed track as a finished session, writing the session and its points atomically
+  async importTrack(track: ParsedTrack): Promise<number> {
+    const locations = fillMissingSpeeds(track.points);
+    const first = locations[0];
+    const last = locations[locations.length - 1];
+    const stats = StatsAccumulator.from(locations);
+    const elevation = calculateElevationChange(locations);
+    const duration = Math.round((last.timestamp - first.timestamp) / 1000);
+    
+    const session: JoggingSession = {
+      id: Date.now(),
+      startTime: new Date(first.timestamp),
+      endTime: new Date(last.timestamp),
+      totalDistance: stats.distance,
+      averageSpeed: calculateAverageSpeed(stats.distance, duration),
+      maxSpeed: stats.maxSpeed,
+      elevationGain: elevation.gain,
+      elevationLoss: elevation.loss,
+      duration,
+      updatedAt: Date.now()
+    };
+    
+    const importedId = await db.transaction('rw', db.joggingSessions, db.locationPoints, async () => {
+      // Avoid id collisions when several files are imported within the same millisecond
+      while (await db.joggingSessions.get(session.id)) {
+        session.id++;
+      }
+      
+      const sessionId = await db.joggingSessions.add(session);
+      await db.locationPoints.bulkAdd(
+        locations.map(({ id, ...point }) => ({ ...point, sessionId }))
+      );
+      return sessionId;
+    });
+    await new SyncService().queueChange(importedId, 'upsert');
+    return importedId;
+  }
+
+  // Recalculate the summary of a finished session from its stored points, saving it if it drifted
+  async recomputeSession(sessionId: number): Promise<SessionStatsChange> {
+    const session = await this.getSession(sessionId);
+    if (!session || !session.endTime) {
+      throw new Error(`Session ${sessionId} is not finished`);
+    }
+
+    const change = await this.getStatsChange(session);
+    if (change.differences.length > 0) {
+      await this.applyStatsChanges([change]);
+    }
+    return change;
+  }
+
+  // Recalculate every finished session without saving, returning those whose summary drifted from its points
+  async findStatsChanges(): Promise<SessionStatsChange[]> {
+    const sessions = await db.joggingSessions.filter(session => !!session.endTime).toArray();
+    const changes: SessionStatsChange[] = [];
+    for (const session of sessions) {
+      const change = await this.getStatsChange(session);
+      if (change.differences.length > 0) {
+        changes.push(change);
+      }
+    }
+    return changes;
+  }
+
+  // Save recalculated summaries, e.g. the ones from findStatsChanges once the user has reviewed them
+  async applyStatsChanges(changes: SessionStatsChange[]): Promise<void> {
+    const updatedAt = Date.now();
+    await db.transaction('rw', db.joggingSessions, async () => {
+      for (const { session, stats } of changes) {
+        await db.joggingSessions.update(session.id, { ...stats, updatedAt });
+      }
+    });
+
+    const syncService = new SyncService();
+    for (const { session } of changes) {
+      await syncService.queueChange(session.id, 'upsert');
+    }
+  }
+
+  // Delete the points of a finished session outside the given time range and recalculate its summary.
+  // What was removed is kept for a week so the trim can be undone, replacing what an earlier trim removed.
+  async trimSession(sessionId: number, start: number, end: number): Promise<TrimUndo> {
+    const undo = await db.transaction('rw', db.joggingSessions, db.locationPoints, db.trimUndo, async () => {
+      const session = await this.getSession(sessionId);
+      if (!session || !session.endTime) {
+        throw new Error(`Session ${sessionId} is not finished`);
+      }
+
+      const locations = await this.getSessionLocations(sessionId);
+      const kept = locations.filter(point => point.timestamp >= start && point.timestamp <= end);
+      const removedPoints = locations.filter(point => point.timestamp < start || point.timestamp > end);
+      if (kept.length < 2) {
+        throw new Error('A trimmed session needs at least two location points');
+      }
+
+      // The session only gets shorter where points were actually cut off
+      const first = kept[0];
+      const last = kept[kept.length - 1];
+      const startTime = first === locations[0] ? session.startTime : new Date(first.timestamp);
+      const endTime = last === locations[locations.length - 1] ? session.endTime : new Date(last.timestamp);
+      // With pause records the moving time is derived again; without, the cut-off time comes off the stored one
+      const cutOff = (startTime.getTime() - session.startTime.getTime() + session.endTime.getTime() - endTime.getTime()) / 1000;
+      const trimmed: JoggingSession = {
+        ...session,
+        startTime,
+        endTime,
+        pauses: clipPauses(session.pauses, startTime, endTime),
+        duration: hasPauseRecords(session) || session.duration === undefined
+          ? undefined
+          : Math.max(0, Math.round(session.duration - cutOff))
+      };
+
+      await db.locationPoints.bulkDelete(removedPoints.map(point => point.id));
+      await db.joggingSessions.put({
+        ...trimmed,
+        ...computeSessionStats(trimmed, kept),
+        updatedAt: Date.now()
+      });
+
+      const undo: TrimUndo = { sessionId, session, removedPoints, trimmedAt: Date.now() };
+      await db.trimUndo.put(undo);
+      // Nothing else cleans up after sessions that are never opened again
+      await db.trimUndo.filter(isTrimUndoExpired).delete();
+      return undo;
+    });
+
+    await new SyncService().queueChange(sessionId, 'upsert');
+    return undo;
+  }
+
+  // The last trim of a session if it can still be undone; one older than a week is dropped
+  async getTrimUndo(sessionId: number): Promise<TrimUndo | undefined> {
+    const undo = await db.trimUndo.get(sessionId);
+    if (undo && isTrimUndoExpired(undo)) {
+      await db.trimUndo.delete(sessionId);
+      return undefined;
+    }
+    return undo;
+  }
+
+  // Restore a session trimmed by trimSession, including the points it removed
+  async undoTrim(undo: TrimUndo): Promise<void> {
+    await db.transaction('rw', db.joggingSessions, db.locationPoints, db.trimUndo, async () => {
+      await db.joggingSessions.put({ ...undo.session, updatedAt: Date.now() });
+      await db.locationPoints.bulkAdd(undo.removedPoints);
+      await db.trimUndo.delete(undo.sessionId);
+    });
+    await new SyncService().queueChange(undo.sessionId, 'upsert');
+  }
+
+  private async getStatsChange(session: JoggingSession): Promise<SessionStatsChange> {
+    const locations = await this.getSessionLocations(session.id);
+    const stats = computeSessionStats(session, locations);
+    return { session, stats, differences: diffSessionStats(session, stats) };
+  }
+
   // Delete a jogging session
   async deleteSession(sessionId: number): Promise<void> {
     await db.locationPoints.where('sessionId').equals(sessionId).delete();
     await db.joggingSessions.delete(sessionId);
+    await db.trimUndo.delete(sessionId);
+    await new SyncService().queueChange(sessionId, 'delete');
   }
 }
@@ -0,0 +1,29 @@
+export type PositionCallback = (position: GeolocationPosition) => void;
+export type PositionErrorCallback = (error: GeolocationPositionError | Error) => void;
+
+// Where tracking gets its position fixes from, so the tracking flow can run on real GPS or a replay
+export interface LocationSource {
+  // Deliver fixes until the returned function is called
+  watchPosition(onPosition: PositionCallback, onError: PositionErrorCallback): () => void;
+  getCurrentPosition(): Promise<GeolocationPosition>;
+}
+
+const WATCH_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  maximumAge: 0,
+  timeout: 5000
+};
+
+// Fixes from the device GPS through the Geolocation API
+export class BrowserLocationSource implements LocationSource {
+  watchPosition(onPosition: PositionCallback, onError: PositionErrorCallback): () => void {
+    const watchId = navigator.geolocation.watchPosition(onPosition, onError, WATCH_OPTIONS);
+    return () => navigator.geolocation.clearWatch(watchId);
+  }
+
+  getCurrentPosition(): Promise<GeolocationPosition> {
+    return new Promise((resolve, reject) => {
+      navigator.geolocation.getCurrentPosition(resolve, reject);
+    });
+  }
+}
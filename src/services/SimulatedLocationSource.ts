@@ -0,0 +1,147 @@
+import { LocationPoint } from '../types';
+import { calculateDistance } from '../utils/locationUtils';
+import { LocationSource, PositionCallback, PositionErrorCallback } from './LocationSource';
+
+export interface SimulatorOptions {
+  speedFactor: number; // 1 replays in real time, 10 ten times faster
+  noise: number; // in meters, standard deviation of the random error added to every fix
+  replayPauses: boolean; // keep long gaps in the recording as stops instead of skipping them
+}
+
+interface ReplayTrack {
+  name: string;
+  points: LocationPoint[];
+}
+
+const FIX_INTERVAL = 1000; // in milliseconds, like a typical phone GPS
+const MAX_GAP = 10; // in seconds, longer gaps between recorded fixes count as pauses
+const METERS_PER_DEGREE = 111320;
+const REPLAY_TRACK_STORAGE_KEY = 'joggingTracker.replayTrack';
+
+interface TimelineEntry {
+  time: number; // in seconds since the start of the replay
+  point: LocationPoint;
+  pauseBefore: boolean; // the runner stood still between the previous entry and this one
+}
+
+// Normally distributed random number with mean 0 and standard deviation 1 (Box-Muller)
+function randomNormal(): number {
+  return Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+}
+
+// Replays recorded location points as live fixes, for demos and for testing tracking indoors.
+// Fixes carry the current wall-clock time, so a faster replay also reports faster speeds.
+export class SimulatedLocationSource implements LocationSource {
+  private timeline: TimelineEntry[] = [];
+  private options: SimulatorOptions;
+  private startedAt: number | null = null; // wall-clock time of the first watch
+
+  constructor(points: LocationPoint[], options: SimulatorOptions) {
+    if (points.length < 2) {
+      throw new Error('A replay needs at least two location points');
+    }
+    this.options = options;
+
+    const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+    let time = 0;
+    sorted.forEach((point, index) => {
+      const gap = index > 0 ? (point.timestamp - sorted[index - 1].timestamp) / 1000 : 0;
+      const isPause = gap > MAX_GAP;
+      time += isPause && !options.replayPauses ? FIX_INTERVAL / 1000 : gap;
+      this.timeline.push({ time, point, pauseBefore: isPause && options.replayPauses });
+    });
+  }
+
+  // The replay clock starts with the first watch and keeps running while nobody is watching,
+  // just like a runner keeps moving while the app pauses listening
+  watchPosition(onPosition: PositionCallback, onError: PositionErrorCallback): () => void {
+    if (this.startedAt === null) {
+      this.startedAt = Date.now();
+    }
+
+    const emit = () => {
+      try {
+        onPosition(this.getPositionAt(Date.now()));
+      } catch (error) {
+        onError(error instanceof Error ? error : new Error(String(error)));
+      }
+    };
+
+    emit();
+    const interval = setInterval(emit, FIX_INTERVAL);
+    return () => clearInterval(interval);
+  }
+
+  async getCurrentPosition(): Promise<GeolocationPosition> {
+    return this.getPositionAt(Date.now());
+  }
+
+  private getPositionAt(now: number): GeolocationPosition {
+    const elapsed = this.startedAt === null ? 0 : (now - this.startedAt) / 1000 * this.options.speedFactor;
+    const last = this.timeline[this.timeline.length - 1];
+
+    // Once the recording is over the runner stands at the finish
+    if (elapsed >= last.time) {
+      return this.toPosition(last.point, 0, now);
+    }
+
+    const nextIndex = this.timeline.findIndex(entry => entry.time > elapsed);
+    const prev = this.timeline[nextIndex - 1];
+    const next = this.timeline[nextIndex];
+    if (next.pauseBefore) {
+      return this.toPosition(prev.point, 0, now);
+    }
+
+    const duration = next.time - prev.time;
+    const fraction = duration > 0 ? (elapsed - prev.time) / duration : 1;
+    const distance = calculateDistance(prev.point.latitude, prev.point.longitude, next.point.latitude, next.point.longitude);
+    const speed = duration > 0 ? distance / duration : 0;
+
+    return this.toPosition({
+      ...prev.point,
+      latitude: prev.point.latitude + (next.point.latitude - prev.point.latitude) * fraction,
+      longitude: prev.point.longitude + (next.point.longitude - prev.point.longitude) * fraction,
+      altitude: prev.point.altitude !== undefined && next.point.altitude !== undefined
+        ? prev.point.altitude + (next.point.altitude - prev.point.altitude) * fraction
+        : prev.point.altitude
+    }, speed * this.options.speedFactor, now);
+  }
+
+  private toPosition(point: LocationPoint, speed: number, timestamp: number): GeolocationPosition {
+    const { noise } = this.options;
+    const north = noise * randomNormal();
+    const east = noise * randomNormal();
+
+    const coords = {
+      latitude: point.latitude + north / METERS_PER_DEGREE,
+      longitude: point.longitude + east / (METERS_PER_DEGREE * Math.cos(point.latitude * Math.PI / 180)),
+      accuracy: Math.max(point.accuracy ?? 5, noise * 2),
+      altitude: point.altitude ?? null,
+      altitudeAccuracy: point.altitude !== undefined ? (point.altitudeAccuracy ?? 10) : null,
+      heading: null,
+      speed
+    };
+
+    return {
+      coords: { ...coords, toJSON: () => coords },
+      timestamp,
+      toJSON: () => ({ coords, timestamp })
+    };
+  }
+}
+
+// Keep a track loaded from a file as the replay source, since it doesn't live in the database
+export function saveReplayTrack(track: ReplayTrack): void {
+  localStorage.setItem(REPLAY_TRACK_STORAGE_KEY, JSON.stringify(track));
+}
+
+// The track saved by saveReplayTrack, if any
+export function loadReplayTrack(): ReplayTrack | null {
+  try {
+    const stored = localStorage.getItem(REPLAY_TRACK_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error loading replay track:', error);
+    return null;
+  }
+}
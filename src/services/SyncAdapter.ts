@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { JoggingSession, LocationPoint } from '../types';
+import { locationPointSchema, sessionSchema } from '../utils/backupUtils';
+
+/*
+ * HTTP contract of the sync backend. All bodies are JSON; dates inside sessions are
+ * ISO 8601 strings and every other time is in epoch milliseconds.
+ *
+ *   PUT    {baseUrl}/sessions/{id}          body SyncSessionPayload   -> 200 PushSessionResponse
+ *   DELETE {baseUrl}/sessions/{id}?deletedAt={ms}                    -> 204, or 404 if unknown
+ *   GET    {baseUrl}/changes?since={ms}                               -> 200 ChangesResponse
+ *
+ * The server keeps whichever copy of a session has the later `updatedAt`, and a delete
+ * only wins over a session that was not changed after `deletedAt`.
+ */
+
+// A session with its full route, as pushed and pulled
+export interface SyncSessionPayload {
+  session: JoggingSession;
+  points: Omit<LocationPoint, 'id' | 'sessionId'>[];
+}
+
+export interface PushSessionResponse {
+  applied: boolean; // false when the server already had a newer copy
+  updatedAt: number; // `updatedAt` of the copy the server kept
+}
+
+export interface DeletedSession {
+  id: number;
+  deletedAt: number;
+}
+
+export interface ChangesResponse {
+  sessions: SyncSessionPayload[]; // sessions changed after `since`
+  deleted: DeletedSession[]; // sessions deleted after `since`
+  serverTime: number; // pass as `since` on the next pull
+}
+
+// Transport used by the sync service, so backends other than REST can be plugged in
+export interface SyncAdapter {
+  pushSession(payload: SyncSessionPayload): Promise<PushSessionResponse>;
+  deleteSession(sessionId: number, deletedAt: number): Promise<void>;
+  pullChanges(since: number): Promise<ChangesResponse>;
+}
+
+const pushSessionResponseSchema = z.object({
+  applied: z.boolean(),
+  updatedAt: z.number()
+});
+
+const changesResponseSchema = z.object({
+  sessions: z.array(z.object({
+    session: sessionSchema,
+    points: z.array(locationPointSchema.omit({ id: true, sessionId: true }))
+  })),
+  deleted: z.array(z.object({
+    id: z.number().int(),
+    deletedAt: z.number()
+  })),
+  serverTime: z.number()
+});
+
+export class RestSyncAdapter implements SyncAdapter {
+  private baseUrl: string;
+  private token: string;
+
+  constructor(baseUrl: string, token: string = '') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.token = token;
+  }
+
+  async pushSession(payload: SyncSessionPayload): Promise<PushSessionResponse> {
+    const response = await this.request(`/sessions/${payload.session.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(payload)
+    });
+    return this.parse(pushSessionResponseSchema, await response.json()) as PushSessionResponse;
+  }
+
+  async deleteSession(sessionId: number, deletedAt: number): Promise<void> {
+    await this.request(`/sessions/${sessionId}?deletedAt=${deletedAt}`, { method: 'DELETE' }, [404]);
+  }
+
+  async pullChanges(since: number): Promise<ChangesResponse> {
+    const response = await this.request(`/changes?since=${since}`, { method: 'GET' });
+    // Inferred zod types are all optional without strict null checks, so the shape is asserted here
+    return this.parse(changesResponseSchema, await response.json()) as ChangesResponse;
+  }
+
+  // Send a request, failing on any status that isn't a success or explicitly allowed
+  private async request(path: string, init: RequestInit, allowedStatuses: number[] = []): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, { ...init, headers });
+    if (!response.ok && !allowedStatuses.includes(response.status)) {
+      throw new Error(`Sync request ${init.method} ${path} failed with status ${response.status}`);
+    }
+    return response;
+  }
+
+  // Validate a response body against the contract
+  private parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, content: unknown): T {
+    const result = schema.safeParse(content);
+    if (!result.success) {
+      throw new Error(`Invalid sync response: ${result.error.issues[0].message}`);
+    }
+    return result.data;
+  }
+}
@@ -0,0 +1,236 @@
+import 'fake-indexeddb/auto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import db from '../contexts/DatabaseContext';
+import { JoggingSession } from '../types';
+import { ChangesResponse, DeletedSession, RestSyncAdapter, SyncSessionPayload } from './SyncAdapter';
+import { SyncService } from './SyncService';
+
+const NOW = new Date('2024-05-01T10:00:00Z').getTime();
+const SERVER_TIME = NOW + 5000;
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  body: unknown;
+}
+
+// Minimal sync backend following the contract in SyncAdapter.ts, keeping everything in memory
+class TestServer {
+  url = '';
+  requests: RecordedRequest[] = [];
+  sessions = new Map<number, SyncSessionPayload>(); // as JSON, with dates as strings
+  deleted: DeletedSession[] = [];
+  failNext = 0; // number of upcoming requests answered with 503
+  private server: Server = createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/api/`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  reset(): void {
+    this.requests = [];
+    this.sessions.clear();
+    this.deleted = [];
+    this.failNext = 0;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let text = '';
+    for await (const chunk of req) text += chunk;
+    this.requests.push({
+      method: req.method,
+      url: req.url,
+      authorization: req.headers.authorization,
+      body: text ? JSON.parse(text) : undefined
+    });
+
+    if (this.failNext > 0) {
+      this.failNext--;
+      return this.send(res, 503);
+    }
+
+    const url = new URL(req.url, this.url);
+    const sessionMatch = url.pathname.match(/^\/api\/sessions\/(\d+)$/);
+
+    if (req.method === 'PUT' && sessionMatch) {
+      const payload = JSON.parse(text) as SyncSessionPayload;
+      const existing = this.sessions.get(payload.session.id);
+      if (existing && existing.session.updatedAt >= payload.session.updatedAt) {
+        return this.send(res, 200, { applied: false, updatedAt: existing.session.updatedAt });
+      }
+      this.sessions.set(payload.session.id, payload);
+      return this.send(res, 200, { applied: true, updatedAt: payload.session.updatedAt });
+    }
+
+    if (req.method === 'DELETE' && sessionMatch) {
+      const id = Number(sessionMatch[1]);
+      if (!this.sessions.delete(id)) return this.send(res, 404);
+      this.deleted.push({ id, deletedAt: Number(url.searchParams.get('deletedAt')) });
+      return this.send(res, 204);
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/changes') {
+      const since = Number(url.searchParams.get('since'));
+      const changes: ChangesResponse = {
+        sessions: [...this.sessions.values()].filter(({ session }) => session.updatedAt > since),
+        deleted: this.deleted.filter(({ deletedAt }) => deletedAt > since),
+        serverTime: SERVER_TIME
+      };
+      return this.send(res, 200, changes);
+    }
+
+    this.send(res, 404);
+  }
+
+  private send(res: ServerResponse, status: number, body?: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  }
+}
+
+function session(id: number, updatedAt: number, changes: Partial<JoggingSession> = {}): JoggingSession {
+  return {
+    id,
+    startTime: new Date(NOW - 3600000),
+    endTime: new Date(NOW - 1800000),
+    totalDistance: 5000,
+    duration: 1800,
+    pauses: [],
+    updatedAt,
+    ...changes
+  };
+}
+
+describe('sync against a REST backend', () => {
+  const server = new TestServer();
+  let service: SyncService;
+
+  beforeAll(() => server.start());
+  afterAll(() => server.stop());
+
+  beforeEach(async () => {
+    server.reset();
+    await Promise.all(db.tables.map(table => table.clear()));
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new SyncService(new RestSyncAdapter(server.url, 'secret'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('pushes a queued session with its route', async () => {
+    await db.joggingSessions.add(session(1, NOW - 1000));
+    await db.locationPoints.bulkAdd([
+      { sessionId: 1, latitude: 50, longitude: 8, timestamp: NOW - 3600000, speed: 3 },
+      { sessionId: 1, latitude: 50.001, longitude: 8, timestamp: NOW - 3599000, speed: 3 }
+    ]);
+    await service.queueChange(1, 'upsert');
+
+    expect(await service.pushPending(NOW)).toEqual({ pushed: 1, failed: 0 });
+
+    const [request] = server.requests;
+    expect(request).toMatchObject({ method: 'PUT', url: '/api/sessions/1', authorization: 'Bearer secret' });
+    const { session: pushed, points } = server.sessions.get(1);
+    expect(pushed).toMatchObject({ id: 1, updatedAt: NOW - 1000, startTime: new Date(NOW - 3600000).toISOString() });
+    expect(points).toEqual([
+      { latitude: 50, longitude: 8, timestamp: NOW - 3600000, speed: 3 },
+      { latitude: 50.001, longitude: 8, timestamp: NOW - 3599000, speed: 3 }
+    ]);
+    expect(await service.getPendingCount()).toBe(0);
+  });
+
+  it('pushes a delete with the time it was queued', async () => {
+    server.sessions.set(2, { session: session(2, NOW - 5000), points: [] });
+    await service.queueChange(2, 'delete');
+    const [entry] = await db.syncQueue.toArray();
+
+    expect(await service.pushPending(NOW)).toEqual({ pushed: 1, failed: 0 });
+    expect(server.requests[0]).toMatchObject({ method: 'DELETE', url: `/api/sessions/2?deletedAt=${entry.queuedAt}` });
+    expect(server.sessions.has(2)).toBe(false);
+  });
+
+  it('treats deleting a session the server never had as done', async () => {
+    await service.queueChange(3, 'delete');
+
+    expect(await service.pushPending(NOW)).toEqual({ pushed: 1, failed: 0 });
+    expect(server.requests[0].method).toBe('DELETE');
+    expect(await service.getPendingCount()).toBe(0);
+  });
+
+  it('retries a push after a server error once the backoff has passed', async () => {
+    await db.joggingSessions.add(session(4, NOW - 1000));
+    await service.queueChange(4, 'upsert');
+    server.failNext = 1;
+
+    expect(await service.pushPending(NOW)).toEqual({ pushed: 0, failed: 1 });
+    const [entry] = await db.syncQueue.toArray();
+    expect(entry).toMatchObject({
+      attempts: 1,
+      nextAttemptAt: NOW + 30000,
+      lastError: 'Sync request PUT /sessions/4 failed with status 503'
+    });
+
+    // Not due yet, so nothing is sent
+    expect(await service.pushPending(NOW + 29999)).toEqual({ pushed: 0, failed: 0 });
+    expect(server.requests).toHaveLength(1);
+
+    expect(await service.pushPending(NOW + 30000)).toEqual({ pushed: 1, failed: 0 });
+    expect(server.sessions.has(4)).toBe(true);
+    expect(await service.getPendingCount()).toBe(0);
+  });
+
+  it('keeps the newer copy when pulling changes that conflict with local edits', async () => {
+    // Edited here after the server copy was saved
+    await db.joggingSessions.add(session(5, NOW - 1000, { totalDistance: 4800 }));
+    server.sessions.set(5, { session: session(5, NOW - 2000, { totalDistance: 5200 }), points: [] });
+    // Edited on another device after the local copy was saved
+    await db.joggingSessions.add(session(6, NOW - 9000, { totalDistance: 3000 }));
+    await service.queueChange(6, 'upsert');
+    server.sessions.set(6, {
+      session: session(6, NOW - 500, { totalDistance: 3100 }),
+      points: [{ latitude: 51, longitude: 7, timestamp: NOW - 3600000 }]
+    });
+    // Deleted on another device, but changed here since
+    await db.joggingSessions.add(session(7, NOW - 100));
+    server.deleted.push({ id: 7, deletedAt: NOW - 3000 });
+
+    expect(await service.pullChanges()).toEqual({ pulled: 1, removed: 0 });
+
+    expect((await db.joggingSessions.get(5)).totalDistance).toBe(4800);
+    const pulled = await db.joggingSessions.get(6);
+    expect(pulled).toMatchObject({ totalDistance: 3100, updatedAt: NOW - 500 });
+    expect(pulled.startTime).toEqual(new Date(NOW - 3600000));
+    expect(await db.locationPoints.where('sessionId').equals(6).toArray()).toMatchObject([
+      { sessionId: 6, latitude: 51, longitude: 7 }
+    ]);
+    // The local change is older than the pulled copy, so it isn't pushed anymore
+    expect(await service.getPendingCount()).toBe(0);
+    expect(await db.joggingSessions.get(7)).toBeDefined();
+    expect(service.getLastPullTime()).toBe(SERVER_TIME);
+  });
+
+  it('removes sessions deleted remotely before their last local change', async () => {
+    await db.joggingSessions.add(session(8, NOW - 9000));
+    await db.locationPoints.add({ sessionId: 8, latitude: 50, longitude: 8, timestamp: NOW - 3600000 });
+    server.deleted.push({ id: 8, deletedAt: NOW - 3000 });
+
+    expect(await service.sync(NOW)).toEqual({ pushed: 0, failed: 0, pulled: 0, removed: 1 });
+    expect(await db.joggingSessions.get(8)).toBeUndefined();
+    expect(await db.locationPoints.count()).toBe(0);
+  });
+});
@@ -0,0 +1,181 @@
+import db from '../contexts/DatabaseContext';
+import { JoggingSession, SyncOperation, SyncQueueEntry } from '../types';
+import { SyncAdapter, SyncSessionPayload } from './SyncAdapter';
+
+const CURSOR_STORAGE_KEY = 'joggingTracker.syncCursor';
+const RETRY_BASE_DELAY = 30 * 1000; // in milliseconds, doubled after every failed push
+const RETRY_MAX_DELAY = 60 * 60 * 1000; // in milliseconds
+
+export interface SyncSummary {
+  pushed: number; // queued changes the backend accepted
+  failed: number; // queued changes that will be retried later
+  pulled: number; // remote sessions written locally
+  removed: number; // local sessions deleted because they were deleted remotely
+}
+
+// Delay before the next push attempt after the given number of failures
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** Math.max(0, attempts - 1));
+}
+
+export class SyncService {
+  private adapter: SyncAdapter | null;
+
+  // Queueing works without an adapter; pushing and pulling need one
+  constructor(adapter: SyncAdapter | null = null) {
+    this.adapter = adapter;
+  }
+
+  // Queue a session change for the next push, replacing any change already queued for it
+  async queueChange(sessionId: number, operation: SyncOperation): Promise<void> {
+    await db.transaction('rw', db.syncQueue, async () => {
+      await db.syncQueue.where('sessionId').equals(sessionId).delete();
+      await db.syncQueue.add({
+        sessionId,
+        operation,
+        queuedAt: Date.now(),
+        attempts: 0,
+        nextAttemptAt: 0
+      });
+    });
+  }
+
+  // Number of changes that haven't reached the backend yet
+  async getPendingCount(): Promise<number> {
+    return await db.syncQueue.count();
+  }
+
+  // Time of the last successful pull, in epoch milliseconds
+  getLastPullTime(): number {
+    try {
+      return Number(localStorage.getItem(CURSOR_STORAGE_KEY)) || 0;
+    } catch (error) {
+      console.error('Error loading sync cursor:', error);
+      return 0;
+    }
+  }
+
+  // Push pending changes, then pull remote ones
+  async sync(now: number = Date.now()): Promise<SyncSummary> {
+    const { pushed, failed } = await this.pushPending(now);
+    const { pulled, removed } = await this.pullChanges();
+    return { pushed, failed, pulled, removed };
+  }
+
+  // Push every queued change that is due, rescheduling failures with exponential backoff
+  async pushPending(now: number = Date.now()): Promise<Pick<SyncSummary, 'pushed' | 'failed'>> {
+    const adapter = this.getAdapter();
+    const due = await db.syncQueue.where('nextAttemptAt').belowOrEqual(now).toArray();
+    let pushed = 0;
+    let failed = 0;
+
+    for (const entry of due) {
+      try {
+        await this.pushEntry(adapter, entry);
+        // A change queued while this one was being pushed replaced the entry, so it stays queued
+        await db.syncQueue.delete(entry.id);
+        pushed++;
+      } catch (error) {
+        console.error(`Error pushing session ${entry.sessionId}:`, error);
+        const attempts = entry.attempts + 1;
+        await db.syncQueue.update(entry.id, {
+          attempts,
+          nextAttemptAt: now + getRetryDelay(attempts),
+          lastError: error instanceof Error ? error.message : String(error)
+        });
+        failed++;
+      }
+    }
+
+    return { pushed, failed };
+  }
+
+  // Apply remote changes since the last pull; the copy with the later `updatedAt` wins
+  async pullChanges(): Promise<Pick<SyncSummary, 'pulled' | 'removed'>> {
+    const adapter = this.getAdapter();
+    const changes = await adapter.pullChanges(this.getLastPullTime());
+    let pulled = 0;
+    let removed = 0;
+
+    for (const payload of changes.sessions) {
+      if (await this.applyRemoteSession(payload)) {
+        pulled++;
+      }
+    }
+    for (const { id, deletedAt } of changes.deleted) {
+      if (await this.applyRemoteDelete(id, deletedAt)) {
+        removed++;
+      }
+    }
+
+    this.setLastPullTime(changes.serverTime);
+    return { pulled, removed };
+  }
+
+  private getAdapter(): SyncAdapter {
+    if (!this.adapter) {
+      throw new Error('Sync is not configured');
+    }
+    return this.adapter;
+  }
+
+  private async pushEntry(adapter: SyncAdapter, entry: SyncQueueEntry): Promise<void> {
+    if (entry.operation === 'delete') {
+      await adapter.deleteSession(entry.sessionId, entry.queuedAt);
+      return;
+    }
+
+    // A session deleted since it was queued has a delete queued instead, so nothing to push
+    const session = await db.joggingSessions.get(entry.sessionId);
+    if (!session) return;
+
+    const points = await db.locationPoints.where('sessionId').equals(entry.sessionId).sortBy('timestamp');
+    // When the server keeps a newer copy, the next pull brings it here
+    await adapter.pushSession({
+      session,
+      points: points.map(({ id, sessionId, ...point }) => point)
+    });
+  }
+
+  private async applyRemoteSession({ session, points }: SyncSessionPayload): Promise<boolean> {
+    return await db.transaction('rw', db.joggingSessions, db.locationPoints, db.syncQueue, db.trimUndo, async () => {
+      const local = await db.joggingSessions.get(session.id);
+      if (local && !isOlder(local, session.updatedAt)) return false;
+
+      await db.locationPoints.where('sessionId').equals(session.id).delete();
+      await db.joggingSessions.put(session);
+      await db.locationPoints.bulkAdd(points.map(point => ({ ...point, sessionId: session.id })));
+      // Any change queued here is older than the remote copy, and undoing a trim would bring back an older one
+      await db.syncQueue.where('sessionId').equals(session.id).delete();
+      await db.trimUndo.delete(session.id);
+      return true;
+    });
+  }
+
+  private async applyRemoteDelete(sessionId: number, deletedAt: number): Promise<boolean> {
+    return await db.transaction('rw', db.joggingSessions, db.locationPoints, db.syncQueue, db.trimUndo, async () => {
+      const local = await db.joggingSessions.get(sessionId);
+      // Edits made after the remote delete win, and get pushed again
+      if (!local || !isOlder(local, deletedAt)) return false;
+
+      await db.locationPoints.where('sessionId').equals(sessionId).delete();
+      await db.joggingSessions.delete(sessionId);
+      await db.syncQueue.where('sessionId').equals(sessionId).delete();
+      await db.trimUndo.delete(sessionId);
+      return true;
+    });
+  }
+
+  private setLastPullTime(time: number): void {
+    try {
+      localStorage.setItem(CURSOR_STORAGE_KEY, String(time));
+    } catch (error) {
+      console.error('Error saving sync cursor:', error);
+    }
+  }
+}
+
+// Whether the local session was last changed before the given time
+function isOlder(session: JoggingSession, time: number = 0): boolean {
+  return (session.updatedAt || 0) < time;
+}
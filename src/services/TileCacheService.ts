@@ -0,0 +1,156 @@
+import db from '../contexts/DatabaseContext';
+import { BoundingBox, TileCoords, getTileKey, getTileUrl, getTilesInBounds } from '../utils/tileUtils';
+
+const MEGABYTE = 1024 * 1024;
+const EVICTION_DELAY = 5000; // in milliseconds, evictions are batched after a burst of new tiles
+const MAX_TILE_AGE = 30 * 24 * 60 * 60 * 1000; // in milliseconds, older tiles are fetched again when online
+const DOWNLOAD_CONCURRENCY = 2; // tile servers ask clients to keep parallel requests low
+
+export interface TileCacheUsage {
+  tiles: number;
+  bytes: number;
+}
+
+export interface DownloadProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+export class TileCacheService {
+  private maxBytes: number;
+  private evictionTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(maxMegabytes: number) {
+    this.maxBytes = maxMegabytes * MEGABYTE;
+  }
+
+  // Get a cached tile image, marking it as recently used
+  async getTile(key: string): Promise<Blob | undefined> {
+    const tile = await db.tiles.get(key);
+    if (tile) {
+      db.tileInfo.update(key, { lastAccessed: Date.now() })
+        .catch(err => console.error('Error updating tile access time:', err));
+    }
+    return tile?.blob;
+  }
+
+  // Store a tile image, evicting old tiles shortly afterwards if the cache grew too large
+  async putTile(key: string, blob: Blob): Promise<void> {
+    const now = Date.now();
+    await db.transaction('rw', db.tiles, db.tileInfo, async () => {
+      await db.tiles.put({ key, blob });
+      await db.tileInfo.put({ key, size: blob.size, lastAccessed: now, fetchedAt: now });
+    });
+    this.scheduleEviction();
+  }
+
+  // Check whether a cached tile is old enough to be fetched again; tiles cached before fetch times were
+  // recorded count as old
+  async isExpired(key: string): Promise<boolean> {
+    const info = await db.tileInfo.get(key);
+    return !info?.fetchedAt || Date.now() - info.fetchedAt > MAX_TILE_AGE;
+  }
+
+  // Load a tile from the cache, or from the network and cache it. An expired tile is fetched again while
+  // online, and still used if that fails.
+  async loadTile(urlTemplate: string, coords: TileCoords): Promise<Blob> {
+    const key = getTileKey(urlTemplate, coords);
+    const cached = await this.getTile(key);
+    if (cached && (!navigator.onLine || !(await this.isExpired(key)))) return cached;
+
+    try {
+      const response = await fetch(getTileUrl(urlTemplate, coords));
+      if (!response.ok) {
+        throw new Error(`Tile ${coords.z}/${coords.x}/${coords.y} failed with status ${response.status}`);
+      }
+      const blob = await response.blob();
+      await this.putTile(key, blob);
+      return blob;
+    } catch (error) {
+      if (cached) return cached;
+      throw error;
+    }
+  }
+
+  // Number and total size of the cached tiles
+  async getUsage(): Promise<TileCacheUsage> {
+    let bytes = 0;
+    let tiles = 0;
+    await db.tileInfo.each(info => {
+      bytes += info.size;
+      tiles++;
+    });
+    return { tiles, bytes };
+  }
+
+  // Delete least recently used tiles until the cache fits its size limit
+  async enforceLimit(): Promise<number> {
+    let { bytes } = await this.getUsage();
+    if (bytes <= this.maxBytes) return 0;
+
+    const evicted: string[] = [];
+    await db.tileInfo.orderBy('lastAccessed').until(() => bytes <= this.maxBytes).each(info => {
+      bytes -= info.size;
+      evicted.push(info.key);
+    });
+
+    await db.transaction('rw', db.tiles, db.tileInfo, async () => {
+      await db.tiles.bulkDelete(evicted);
+      await db.tileInfo.bulkDelete(evicted);
+    });
+    return evicted.length;
+  }
+
+  // Delete every cached tile
+  async clear(): Promise<void> {
+    await db.transaction('rw', db.tiles, db.tileInfo, async () => {
+      await db.tiles.clear();
+      await db.tileInfo.clear();
+    });
+  }
+
+  // Cache every tile of a bounding box across a range of zoom levels, skipping tiles already cached unless expired
+  async downloadArea(
+    urlTemplate: string,
+    bounds: BoundingBox,
+    minZoom: number,
+    maxZoom: number,
+    onProgress: (progress: DownloadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<DownloadProgress> {
+    const tiles: TileCoords[] = [];
+    for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+      tiles.push(...getTilesInBounds(bounds, zoom));
+    }
+
+    const progress: DownloadProgress = { done: 0, total: tiles.length, failed: 0 };
+    let next = 0;
+
+    const worker = async () => {
+      while (next < tiles.length && !signal?.aborted) {
+        const coords = tiles[next++];
+        try {
+          await this.loadTile(urlTemplate, coords);
+        } catch (error) {
+          console.error('Error downloading tile:', error);
+          progress.failed++;
+        }
+        progress.done++;
+        onProgress({ ...progress });
+      }
+    };
+
+    await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+    await this.enforceLimit();
+    return progress;
+  }
+
+  private scheduleEviction(): void {
+    if (this.evictionTimer) return;
+    this.evictionTimer = setTimeout(() => {
+      this.evictionTimer = null;
+      this.enforceLimit().catch(err => console.error('Error evicting map tiles:', err));
+    }, EVICTION_DELAY);
+  }
+}
@@ -0,0 +1,291 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { START, point } from '../test/fixtures';
+import { JoggingSession, LocationPoint, PauseInterval } from '../types';
+import { calculateDistance } from '../utils/locationUtils';
+import { CHUNK_SIZE } from '../utils/routeChunks';
+import { JoggingService } from './JoggingService';
+import { TrackingEngine, TrackingEvent } from './TrackingEngine';
+
+// Count the distance calculations, the bulk of the work per fix
+vi.mock('../utils/locationUtils', async importOriginal => {
+  const actual = await importOriginal<typeof import('../utils/locationUtils')>();
+  return { ...actual, calculateDistance: vi.fn(actual.calculateDistance) };
+});
+
+// In-memory store that logs every write, so tests can check what reached it and in which order
+class FakeStore extends JoggingService {
+  writes: string[] = [];
+  sessions = new Map<number, JoggingSession>();
+  points: LocationPoint[] = [];
+  endedWith: Partial<JoggingSession> | null = null;
+
+  async startSession(): Promise<number> {
+    await this.write('startSession');
+    const id = this.sessions.size + 1;
+    this.sessions.set(id, { id, startTime: new Date(), pauses: [] });
+    return id;
+  }
+
+  async addLocationPoints(sessionId: number, points: LocationPoint[]): Promise<void> {
+    await this.write(`addLocationPoints ${points.length}`);
+    this.points.push(...points.map(point => ({ ...point, sessionId })));
+  }
+
+  async updatePauses(sessionId: number, pauses: PauseInterval[]): Promise<void> {
+    await this.write(`updatePauses ${pauses.map(pause => (pause.end ? 'closed' : 'open')).join(',')}`);
+  }
+
+  async endSession(sessionId: number, stats: Partial<JoggingSession>): Promise<void> {
+    await this.write('endSession');
+    this.endedWith = stats;
+  }
+
+  async getSession(sessionId: number): Promise<JoggingSession | undefined> {
+    return this.sessions.get(sessionId);
+  }
+
+  async getSessionLocations(sessionId: number): Promise<LocationPoint[]> {
+    return this.points.filter(point => point.sessionId === sessionId);
+  }
+
+  // Takes a few turns of the event loop, so overlapping writes would show up interleaved
+  private async write(name: string): Promise<void> {
+    this.writes.push(`${name} begin`);
+    await Promise.resolve();
+    await Promise.resolve();
+    this.writes.push(`${name} end`);
+  }
+}
+
+// A fix `meters` north of the start line, taken at `seconds` after START
+function position(meters: number, seconds: number, speed: number | null = 3): GeolocationPosition {
+  const { latitude, longitude, timestamp } = point(meters, seconds);
+  return {
+    coords: {
+      latitude,
+      longitude,
+      accuracy: 5,
+      altitude: null,
+      altitudeAccuracy: null,
+      heading: null,
+      speed
+    },
+    timestamp
+  } as GeolocationPosition;
+}
+
+async function advance(seconds: number): Promise<void> {
+  await vi.advanceTimersByTimeAsync(seconds * 1000);
+}
+
+describe('TrackingEngine', () => {
+  let store: FakeStore;
+  let engine: TrackingEngine;
+  let events: TrackingEvent[];
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: START });
+    store = new FakeStore();
+    engine = new TrackingEngine(store, () => Date.now());
+    events = [];
+    engine.onEvent(event => events.push(event));
+  });
+
+  afterEach(() => {
+    engine.dispose();
+    vi.useRealTimers();
+  });
+
+  it('counts only the time between pauses as moving time', async () => {
+    await engine.start();
+    await advance(60);
+    engine.pause();
+    await advance(30);
+    engine.resume();
+    await advance(40);
+
+    expect(engine.getSnapshot().elapsedTime).toBe(100);
+
+    await engine.stop();
+
+    expect(events).toContainEqual({ type: 'stopped', distance: 0, duration: 100 });
+    expect(store.endedWith.duration).toBe(100);
+    expect(store.endedWith.pauses).toEqual([
+      { start: new Date(START + 60000), end: new Date(START + 90000), auto: false }
+    ]);
+    expect(engine.getSnapshot().state).toBe('idle');
+  });
+
+  it('ends an open pause when stopping while paused', async () => {
+    await engine.start();
+    await advance(20);
+    engine.pause();
+    await advance(50);
+    await engine.stop();
+
+    expect(store.endedWith.duration).toBe(20);
+    expect(store.endedWith.pauses).toEqual([
+      { start: new Date(START + 20000), end: new Date(START + 70000), auto: false }
+    ]);
+  });
+
+  it('refuses a second start while the first is still saving', async () => {
+    const first = engine.start();
+    expect(engine.getSnapshot().state).toBe('starting');
+    await expect(engine.start()).rejects.toThrow('Cannot do this while starting');
+
+    await first;
+    expect(engine.getSnapshot().state).toBe('tracking');
+    expect(store.sessions.size).toBe(1);
+  });
+
+  it('returns to idle when the session cannot be created', async () => {
+    vi.spyOn(store, 'startSession').mockRejectedValueOnce(new Error('quota exceeded'));
+
+    await expect(engine.start()).rejects.toThrow('quota exceeded');
+    expect(engine.getSnapshot().state).toBe('idle');
+
+    await engine.start();
+    expect(engine.getSnapshot().state).toBe('tracking');
+  });
+
+  it('auto-pauses from the timer when no fixes arrive and resumes on movement', async () => {
+    engine.setAutoPause({ speedThreshold: 1, stopDelay: 10 });
+    await engine.start();
+    await advance(12);
+
+    expect(engine.getSnapshot()).toMatchObject({ state: 'paused', autoPaused: true, elapsedTime: 0 });
+    expect(events).toContainEqual({ type: 'paused', auto: true });
+
+    await advance(8);
+    engine.addPosition(position(0, 20));
+    // The first fix only counts once the next one agrees with it
+    expect(engine.getSnapshot().state).toBe('paused');
+
+    await advance(1);
+    engine.addPosition(position(6, 21));
+    expect(engine.getSnapshot()).toMatchObject({ state: 'tracking', autoPaused: false });
+    expect(events).toContainEqual({ type: 'resumed', auto: true });
+
+    // Stopping before the next auto-pause is due
+    await advance(5);
+    await engine.stop();
+
+    // Paused from the start until movement was seen at 21 seconds
+    expect(store.endedWith.pauses).toEqual([
+      { start: new Date(START), end: new Date(START + 21000), auto: true }
+    ]);
+    expect(store.endedWith.duration).toBe(5);
+  });
+
+  it('restores an interrupted session, counting the time the app was closed as paused', async () => {
+    store.sessions.set(7, {
+      id: 7,
+      startTime: new Date(START - 600000),
+      pauses: [{ start: new Date(START - 500000), end: new Date(START - 400000) }]
+    });
+    store.points = [
+      point(0, -600, { sessionId: 7, speed: 3 }),
+      point(1000, -300, { sessionId: 7, speed: 3 })
+    ];
+
+    await engine.restore(7);
+
+    // 300 seconds up to the last point, minus the 100 second pause
+    expect(engine.getSnapshot()).toMatchObject({ state: 'tracking', sessionId: 7, elapsedTime: 200 });
+    expect(engine.getSnapshot().distance).toBeCloseTo(1000, 0);
+    expect(events).toEqual([{ type: 'restored' }]);
+
+    await advance(10);
+    expect(engine.getSnapshot().elapsedTime).toBe(210);
+
+    await engine.stop();
+    expect(store.endedWith.pauses).toEqual([
+      { start: new Date(START - 500000), end: new Date(START - 400000) },
+      { start: new Date(START - 300000), end: new Date(START) }
+    ]);
+  });
+
+  it('refuses to restore a finished session', async () => {
+    store.sessions.set(3, { id: 3, startTime: new Date(START - 60000), endTime: new Date(START) });
+
+    await expect(engine.restore(3)).rejects.toThrow('Session 3 cannot be resumed');
+    expect(engine.getSnapshot().state).toBe('idle');
+  });
+
+  it('hands out a new route after every point, leaving earlier ones as they were', async () => {
+    await engine.start();
+    engine.addPosition(position(0, 1));
+    engine.addPosition(position(10, 4));
+    const before = engine.getSnapshot();
+    const route = engine.getRoute();
+
+    engine.addPosition(position(20, 7));
+
+    expect(engine.getRoute()).not.toBe(route);
+    expect(engine.getRoute()[0]).toHaveLength(3);
+    expect(route[0]).toHaveLength(2);
+    expect(engine.getSnapshot().routeVersion).toBe(before.routeVersion + 1);
+    // Unchanged until the next point
+    expect(engine.getRoute()).toBe(engine.getRoute());
+  });
+
+  it('writes pauses in order and ends the session after every other write', async () => {
+    await engine.start();
+    engine.addPosition(position(0, 1));
+    engine.addPosition(position(10, 4));
+    engine.pause();
+    engine.resume();
+    engine.addPosition(position(20, 7));
+    engine.pause();
+    await engine.stop();
+
+    const completed = store.writes.filter(write => write.endsWith(' end'));
+    expect(completed.filter(write => write.startsWith('updatePauses'))).toEqual([
+      'updatePauses open end',
+      'updatePauses closed end',
+      'updatePauses closed,open end',
+      'updatePauses closed,closed end'
+    ]);
+    expect(completed[completed.length - 1]).toBe('endSession end');
+    expect(store.points).toHaveLength(3);
+
+    // The pause writes go through one queue, so none of them overlaps another
+    const pauseWrites = store.writes.filter(write => write.startsWith('updatePauses'));
+    for (let i = 0; i < pauseWrites.length; i += 2) {
+      expect(pauseWrites[i].replace(' begin', '')).toBe(pauseWrites[i + 1].replace(' end', ''));
+    }
+  });
+});
+
+describe('TrackingEngine on a long run', () => {
+  it('does the same work for every fix of a three hour run at one fix per second', async () => {
+    const engine = new TrackingEngine(new FakeStore());
+    await engine.start();
+    vi.mocked(calculateDistance).mockClear();
+
+    let route = engine.getRoute();
+    let replacedChunks = 0;
+    let longestChunk = 0;
+    // 6 m apart, so no fix is merged as jitter
+    for (let second = 1; second <= 10800; second++) {
+      engine.addPosition(position(second * 6, second));
+
+      // Read the route after every fix like the page does, checking that only the last chunk is new
+      const next = engine.getRoute();
+      for (let i = 0; i < route.length - 1; i++) {
+        if (next[i] !== route[i]) replacedChunks++;
+      }
+      longestChunk = Math.max(longestChunk, next[next.length - 1]?.length ?? 0);
+      route = next;
+    }
+
+    expect(engine.getSnapshot().distance).toBeCloseTo(64794, -1);
+    expect(route.reduce((total, chunk) => total + chunk.length - 1, 1)).toBe(10800);
+    expect(replacedChunks).toBe(0);
+    expect(longestChunk).toBeLessThanOrEqual(CHUNK_SIZE);
+    // The filter checks the hop and the jitter radius, the stats measure the new segment
+    expect(vi.mocked(calculateDistance).mock.calls.length).toBeLessThanOrEqual(3 * 10800);
+    engine.dispose();
+  });
+});
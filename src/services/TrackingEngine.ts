@@ -0,0 +1,448 @@
+import { JoggingSession, LocationPoint, PauseInterval } from '../types';
+import { calculateAverageSpeed, calculateElevationChange } from '../utils/locationUtils';
+import { AutoPauseDetector, AutoPauseOptions } from '../utils/autoPause';
+import { GpsFilter, GpsFilterOptions } from '../utils/gpsFilter';
+import { closePauses, getOpenPause } from '../utils/pauseUtils';
+import { RouteChunks } from '../utils/routeChunks';
+import { StatsAccumulator } from '../utils/statsAccumulator';
+import { WriteBuffer, WriteBufferStatus } from '../utils/writeBuffer';
+import { JoggingService } from './JoggingService';
+
+// idle -> starting -> tracking <-> paused -> stopping -> idle; restoring an interrupted session also
+// goes through starting
+export type TrackingState = 'idle' | 'starting' | 'tracking' | 'paused' | 'stopping';
+
+export interface TrackingSnapshot {
+  state: TrackingState;
+  autoPaused: boolean;
+  sessionId: number | null;
+  routeVersion: number; // changes whenever the route changes, see getRoute
+  currentLocation: LocationPoint | null;
+  elapsedTime: number; // moving time in seconds
+  distance: number;
+  currentSpeed: number;
+  averageSpeed: number; // distance over moving time
+  maxSpeed: number;
+  unsavedPoints: number; // points whose batch failed to save and is being retried; 0 while saving works
+}
+
+export type TrackingEvent =
+  | { type: 'started' }
+  | { type: 'restored' }
+  | { type: 'paused'; auto: boolean }
+  | { type: 'resumed'; auto: boolean }
+  | { type: 'stopped'; distance: number; duration: number };
+
+// The part of JoggingService the engine writes through, so it can run against another store
+export type TrackingStore = Pick<
+  JoggingService,
+  'startSession' | 'addLocationPoints' | 'updatePauses' | 'endSession' | 'getSession' |
+  'getSessionLocations' | 'getRecoveredElapsedTime' | 'getLastActivityTime'
+>;
+
+const TICK_INTERVAL = 1000; // in milliseconds
+
+const IDLE_SNAPSHOT: TrackingSnapshot = {
+  state: 'idle',
+  autoPaused: false,
+  sessionId: null,
+  routeVersion: 0,
+  currentLocation: null,
+  elapsedTime: 0,
+  distance: 0,
+  currentSpeed: 0,
+  averageSpeed: 0,
+  maxSpeed: 0,
+  unsavedPoints: 0
+};
+
+// Convert a fix from a location source into a location point
+export function toLocationPoint(position: GeolocationPosition): LocationPoint {
+  return {
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+    timestamp: position.timestamp,
+    // Left out when the device can't tell; the engine then derives it from recent positions
+    speed: Number.isFinite(position.coords.speed) ? position.coords.speed : undefined,
+    accuracy: position.coords.accuracy,
+    altitude: position.coords.altitude ?? undefined,
+    altitudeAccuracy: position.coords.altitudeAccuracy ?? undefined,
+    // Heading is null without a compass fix and NaN while standing still
+    heading: Number.isFinite(position.coords.heading) ? position.coords.heading : undefined,
+  };
+}
+
+// Runs a tracking session independently of any UI: timer, pause accounting, stats and persistence.
+// Points are saved in batches; every other write goes through one queue, so they reach the database in order.
+export class TrackingEngine {
+  private store: TrackingStore;
+  private now: () => number;
+  private snapshot: TrackingSnapshot = IDLE_SNAPSHOT;
+  private listeners = new Set<(snapshot: TrackingSnapshot) => void>();
+  private eventListeners = new Set<(event: TrackingEvent) => void>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+  private points: WriteBuffer<LocationPoint> | null = null;
+  private route = new RouteChunks(); // in chunks, a copy of the whole route per fix would make long runs quadratic
+  private stats = new StatsAccumulator();
+  private gpsFilter = new GpsFilter();
+  private autoPauseDetector: AutoPauseDetector | null = null;
+  private pauses: PauseInterval[] = [];
+  private startTime = 0;
+  private pausedTime = 0; // in milliseconds, from closed pauses only
+  private pauseStartedAt: number | null = null;
+
+  constructor(store: TrackingStore = new JoggingService(), now: () => number = Date.now) {
+    this.store = store;
+    this.now = now;
+  }
+
+  getSnapshot = (): TrackingSnapshot => this.snapshot;
+
+  // Listen for snapshot changes; returns the function to stop listening
+  subscribe = (listener: (snapshot: TrackingSnapshot) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  // The recorded route in chunks; a new array after every change, in which only the last chunk is new
+  getRoute(): LocationPoint[][] {
+    return this.route.getChunks();
+  }
+
+  // Listen for state transitions, e.g. to tell the runner about an auto-pause
+  onEvent(listener: (event: TrackingEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => this.eventListeners.delete(listener);
+  }
+
+  // Turn auto-pause on with the given options, or off with null
+  setAutoPause(options: AutoPauseOptions | null): void {
+    this.autoPauseDetector = options ? new AutoPauseDetector(options) : null;
+    this.autoPauseDetector?.reset(this.now());
+  }
+
+  // Replace the options of the GPS filter; a running session continues from its last point
+  setGpsFilterOptions(options: Partial<GpsFilterOptions>): void {
+    this.gpsFilter = new GpsFilter(options);
+    this.gpsFilter.reset(this.route.last);
+  }
+
+  // Moving time in seconds at the given time, without closed pauses and the open one
+  getElapsedTime(at: number = this.now()): number {
+    const { state } = this.snapshot;
+    if (state === 'idle' || state === 'starting') return 0;
+
+    const openPause = this.pauseStartedAt !== null ? Math.max(0, at - this.pauseStartedAt) : 0;
+    return Math.max(0, Math.floor((at - this.startTime - this.pausedTime - openPause) / 1000));
+  }
+
+  async start(): Promise<void> {
+    const id = await this.prepare(() => this.store.startSession());
+    const now = this.now();
+
+    this.startTime = now;
+    this.pausedTime = 0;
+    this.pauseStartedAt = null;
+    this.pauses = [];
+    this.points = this.createPointBuffer(id);
+    this.route = new RouteChunks();
+    this.stats = new StatsAccumulator();
+    this.gpsFilter.reset();
+    this.autoPauseDetector?.reset(now);
+
+    this.update({
+      ...IDLE_SNAPSHOT,
+      state: 'tracking',
+      sessionId: id,
+      routeVersion: this.snapshot.routeVersion + 1
+    });
+    this.startTimer();
+    this.emit({ type: 'started' });
+  }
+
+  // Continue an interrupted session; the time the app was not running counts as paused
+  async restore(sessionId: number): Promise<void> {
+    const { session, locations, now } = await this.prepare(async () => {
+      const session = await this.store.getSession(sessionId);
+      if (!session || session.endTime) {
+        throw new Error(`Session ${sessionId} cannot be resumed`);
+      }
+      const locations = await this.store.getSessionLocations(sessionId);
+      const now = this.now();
+
+      this.pauses = closePauses(session.pauses, new Date(now));
+      const lastActivity = this.store.getLastActivityTime(session, locations);
+      if (!getOpenPause(session.pauses) && now > lastActivity) {
+        this.pauses.push({ start: new Date(lastActivity), end: new Date(now) });
+      }
+      await this.store.updatePauses(sessionId, this.pauses);
+      return { session, locations, now };
+    });
+    const elapsed = this.store.getRecoveredElapsedTime(session, locations);
+
+    this.startTime = session.startTime.getTime();
+    this.pausedTime = now - this.startTime - elapsed * 1000;
+    this.pauseStartedAt = null;
+    this.points = this.createPointBuffer(sessionId);
+    this.route = new RouteChunks(locations);
+    this.stats = StatsAccumulator.from(locations);
+    this.gpsFilter.reset(locations[locations.length - 1] || null);
+    this.autoPauseDetector?.reset(now);
+
+    this.update({
+      ...IDLE_SNAPSHOT,
+      state: 'tracking',
+      sessionId,
+      routeVersion: this.snapshot.routeVersion + 1,
+      currentLocation: locations[locations.length - 1] || null,
+      elapsedTime: elapsed,
+      distance: this.stats.distance,
+      maxSpeed: this.stats.maxSpeed
+    });
+    this.startTimer();
+    this.emit({ type: 'restored' });
+  }
+
+  pause(): void {
+    this.assertState('tracking');
+    this.beginPause(this.now(), false);
+  }
+
+  resume(): void {
+    this.assertState('paused');
+    const now = this.now();
+    this.endPause(now, false);
+    this.autoPauseDetector?.reset(now);
+  }
+
+  togglePause(): void {
+    if (this.snapshot.state === 'paused') {
+      this.resume();
+    } else {
+      this.pause();
+    }
+  }
+
+  // Feed a fix from the location source
+  addPosition(position: GeolocationPosition): void {
+    const rawLocation = toLocationPoint(position);
+    const { state, autoPaused } = this.snapshot;
+
+    // Fixes keep coming while auto-paused, so movement can resume the session
+    if (state !== 'tracking' && !(state === 'paused' && autoPaused)) {
+      this.update({ currentLocation: rawLocation });
+      return;
+    }
+
+    // Drop outliers and stationary jitter before they reach the stats or the database
+    const locations = this.gpsFilter.process(rawLocation);
+
+    const lastLocation = locations[locations.length - 1] || null;
+    const autoPauseAction = this.autoPauseDetector?.update(lastLocation, rawLocation.timestamp);
+    if (autoPauseAction === 'pause') {
+      this.update({ currentLocation: rawLocation });
+      this.beginPause(this.autoPauseDetector.stoppedSince, true);
+      return;
+    }
+    if (autoPauseAction === 'resume') {
+      this.endPause(rawLocation.timestamp, true);
+    } else if (autoPaused) {
+      this.update({ currentLocation: rawLocation });
+      return;
+    }
+
+    if (locations.length === 0) {
+      this.update({ currentLocation: rawLocation });
+      return;
+    }
+
+    for (const location of locations) {
+      this.stats.add(location);
+      // Store the derived speed with points that came without one, so charts and splits can use it
+      const point = location.speed === undefined ? { ...location, speed: this.stats.currentSpeed } : location;
+      this.points.add(point);
+      this.route.add(point);
+    }
+
+    this.update({
+      routeVersion: this.snapshot.routeVersion + 1,
+      currentLocation: rawLocation,
+      distance: this.stats.distance,
+      currentSpeed: this.stats.currentSpeed,
+      maxSpeed: this.stats.maxSpeed
+    });
+  }
+
+  // Write buffered points now, e.g. before the page is hidden and the browser may discard it
+  async flush(): Promise<void> {
+    await this.points?.flush();
+    await this.writes;
+  }
+
+  // Save the session with its final stats once all earlier writes are done.
+  // Fails without changing anything if the buffered points can't be saved, so stopping can be retried.
+  async stop(): Promise<void> {
+    this.assertStoppable();
+    await this.points.flush();
+
+    // Check again, the state may have changed while saving
+    this.assertStoppable();
+    const { state, sessionId } = this.snapshot;
+
+    this.stopTimer();
+    // Stopping while paused ends the pause, so it doesn't count as moving time
+    const now = this.now();
+    if (state === 'paused') {
+      this.closePause(now);
+    }
+    const duration = this.getElapsedTime(now);
+    this.update({ state: 'stopping', autoPaused: false, elapsedTime: duration });
+
+    try {
+      // Points that arrived during the first flush
+      await this.points.flush();
+      await this.writes;
+
+      const { distance } = this.stats;
+      const elevation = calculateElevationChange(this.route.toArray());
+      const stats: Partial<JoggingSession> = {
+        totalDistance: distance,
+        averageSpeed: calculateAverageSpeed(distance, duration),
+        maxSpeed: this.stats.maxSpeed,
+        elevationGain: elevation.gain,
+        elevationLoss: elevation.loss,
+        duration,
+        pauses: this.pauses,
+      };
+      await this.store.endSession(sessionId, stats);
+
+      this.emit({ type: 'stopped', distance, duration });
+    } finally {
+      this.route = new RouteChunks();
+      this.update({
+        ...IDLE_SNAPSHOT,
+        routeVersion: this.snapshot.routeVersion + 1,
+        currentLocation: this.snapshot.currentLocation
+      });
+    }
+  }
+
+  // Stop the timer, e.g. when the page unmounts; an unfinished session stays recoverable
+  dispose(): void {
+    this.stopTimer();
+    this.points?.flush().catch(error => console.error('Error saving location points:', error));
+  }
+
+  // Run the setup of a start or restore in the starting state, so a second one is refused until it's done
+  private async prepare<T>(setup: () => Promise<T>): Promise<T> {
+    this.assertState('idle');
+    this.update({ state: 'starting' });
+
+    try {
+      return await setup();
+    } catch (error) {
+      this.update({ state: 'idle' });
+      throw error;
+    }
+  }
+
+  private assertStoppable(): void {
+    const { state } = this.snapshot;
+    if (state !== 'tracking' && state !== 'paused') {
+      throw new Error(`Cannot stop while ${state}`);
+    }
+  }
+
+  private assertState(expected: TrackingState): void {
+    if (this.snapshot.state !== expected) {
+      throw new Error(`Cannot do this while ${this.snapshot.state}`);
+    }
+  }
+
+  // Open a pause interval; the elapsed time stops counting from `at`
+  private beginPause(at: number, auto: boolean): void {
+    this.pauseStartedAt = at;
+    this.pauses = [...this.pauses, { start: new Date(at), auto }];
+    this.persistPauses();
+    // Nothing new arrives while paused, so don't leave points waiting; a failure is retried by the buffer
+    this.points.flush().catch(() => {});
+
+    this.update({ state: 'paused', autoPaused: auto, elapsedTime: this.getElapsedTime() });
+    this.emit({ type: 'paused', auto });
+  }
+
+  private endPause(at: number, auto: boolean): void {
+    this.closePause(at);
+
+    this.update({ state: 'tracking', autoPaused: false, elapsedTime: this.getElapsedTime() });
+    this.emit({ type: 'resumed', auto });
+  }
+
+  // Close the open pause interval and add it to the paused time
+  private closePause(at: number): void {
+    if (this.pauseStartedAt !== null) {
+      this.pausedTime += Math.max(0, at - this.pauseStartedAt);
+      this.pauseStartedAt = null;
+    }
+    this.pauses = closePauses(this.pauses, new Date(at));
+    this.persistPauses();
+  }
+
+  private createPointBuffer(sessionId: number): WriteBuffer<LocationPoint> {
+    return new WriteBuffer<LocationPoint>(
+      points => this.store.addLocationPoints(sessionId, points),
+      (status: WriteBufferStatus) => this.update({ unsavedPoints: status.failures > 0 ? status.pending : 0 })
+    );
+  }
+
+  private persistPauses(): void {
+    const { sessionId } = this.snapshot;
+    const pauses = this.pauses;
+    this.persist(() => this.store.updatePauses(sessionId, pauses));
+  }
+
+  // Queue a write behind all earlier ones; a failed write is logged and doesn't block the rest
+  private persist(write: () => Promise<unknown>): void {
+    this.writes = this.writes
+      .then(write)
+      .catch(error => console.error('Error saving tracking data:', error));
+  }
+
+  private startTimer(): void {
+    this.stopTimer();
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Browsers may stop reporting fixes while the device is still, so check for stops on the timer too
+  private tick(): void {
+    if (this.snapshot.state === 'tracking' && this.autoPauseDetector?.tick(this.now()) === 'pause') {
+      this.beginPause(this.autoPauseDetector.stoppedSince, true);
+      return;
+    }
+
+    const elapsedTime = this.getElapsedTime();
+    if (elapsedTime !== this.snapshot.elapsedTime) {
+      this.update({ elapsedTime });
+    }
+  }
+
+  private update(changes: Partial<TrackingSnapshot>): void {
+    const snapshot = { ...this.snapshot, ...changes };
+    // Derived here so it never falls out of step with the distance or the elapsed time
+    snapshot.averageSpeed = calculateAverageSpeed(snapshot.distance, snapshot.elapsedTime);
+    this.snapshot = snapshot;
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+
+  private emit(event: TrackingEvent): void {
+    this.eventListeners.forEach(listener => listener(event));
+  }
+}
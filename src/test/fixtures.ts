@@ -0,0 +1,33 @@
+import { LocationPoint } from '../types';
+
+// Test routes start here and head north, so distances along them are easy to work out
+export const START = new Date('2024-05-01T10:00:00Z').getTime();
+export const ORIGIN = { latitude: 50, longitude: 8 };
+
+// Meters per degree with the earth radius calculateDistance uses; the east one holds at the origin's latitude
+export const METERS_PER_DEGREE = 111195;
+export const METERS_PER_DEGREE_EAST = METERS_PER_DEGREE * Math.cos((ORIGIN.latitude * Math.PI) / 180);
+
+// The time `seconds` after START
+export function at(seconds: number): Date {
+  return new Date(START + seconds * 1000);
+}
+
+// A point `north` meters north of the origin at `seconds` after START
+export function point(north: number, seconds: number, changes: Partial<LocationPoint> = {}): LocationPoint {
+  return {
+    latitude: ORIGIN.latitude + north / METERS_PER_DEGREE,
+    longitude: ORIGIN.longitude,
+    timestamp: START + seconds * 1000,
+    ...changes
+  };
+}
+
+// A point every `interval` seconds over `seconds`, heading north at 3 m/s
+export function route(seconds: number, interval = 10, changes: Partial<LocationPoint> = {}): LocationPoint[] {
+  const points: LocationPoint[] = [];
+  for (let t = 0; t <= seconds; t += interval) {
+    points.push(point(t * 3, t, { speed: 3, ...changes }));
+  }
+  return points;
+}
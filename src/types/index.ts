@@ -6,7 +6,17 @@ export interface JoggingSession {
   totalDistance?: number; // in meters
   averageSpeed?: number; // in meters per second
   maxSpeed?: number; // in meters per second
-  duration?: number; // in seconds
+  elevationGain?: number; // in meters
+  elevationLoss?: number; // in meters
+  duration?: number; // in seconds, moving time excluding pauses
+  pauses?: PauseInterval[];
+  updatedAt?: number; // epoch milliseconds of the last change, used to resolve sync conflicts
+}
+
+export interface PauseInterval {
+  start: Date;
+  end?: Date; // missing while the pause is still active
+  auto?: boolean; // paused automatically because the runner stopped
 }
 
 export interface LocationPoint {
@@ -16,4 +26,73 @@ export interface LocationPoint {
   longitude: number;
   timestamp: number;
   speed?: number; // in meters per second
+  accuracy?: number; // in meters, radius of 68% confidence
+  altitude?: number; // in meters above the WGS84 ellipsoid
+  altitudeAccuracy?: number; // in meters
+  heading?: number; // in degrees clockwise from true north
+}
+
+export type SpeedMetric = 'speed' | 'pace';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export type MapStyle = 'streets' | 'topo' | 'dark' | 'satellite' | 'custom';
+
+export type LocationSourceType = 'gps' | 'simulator';
+
+export interface UserPreferences {
+  unitSystem: UnitSystem; // kilometers or miles for every distance, speed and pace
+  speedMetric: SpeedMetric; // show speeds as km/h (mph) or as pace in min/km (min/mi)
+  autoPause: boolean;
+  autoPauseSpeed: number; // in meters per second, below this the runner counts as stopped
+  autoPauseDelay: number; // in seconds, how long the runner must be stopped before pausing
+  syncUrl: string; // base URL of the sync backend, empty to disable sync
+  syncToken: string; // sent as a bearer token when set
+  tileCacheLimit: number; // in megabytes, least recently used map tiles are evicted above this
+  mapStyle: MapStyle;
+  customTileUrl: string; // XYZ template used by the 'custom' map style
+  customTileAttribution: string;
+  locationSource: LocationSourceType; // developer setting, 'simulator' replays a recording instead of using GPS
+  simulatorSessionId: number | null; // session to replay, null for the track loaded from a file
+  simulatorSpeed: number; // replay speed factor
+  simulatorNoise: number; // in meters, random error added to replayed fixes
+  simulatorPauses: boolean; // replay recorded pauses as stops
+  gpsMaxAccuracy: number; // developer setting, in meters, less accurate fixes are dropped while tracking
+  gpsSmoothing: boolean; // developer setting, smooth fixes with a Kalman filter while tracking
+}
+
+export type SyncOperation = 'upsert' | 'delete';
+
+// A session change waiting to be pushed to the sync backend
+export interface SyncQueueEntry {
+  id?: number;
+  sessionId: number;
+  operation: SyncOperation;
+  queuedAt: number; // epoch milliseconds
+  attempts: number; // failed pushes so far
+  nextAttemptAt: number; // epoch milliseconds, pushes are retried with exponential backoff
+  lastError?: string;
+}
+
+// A map tile image kept for offline use
+export interface CachedTile {
+  key: string; // see getTileKey
+  blob: Blob;
+}
+
+// What the latest trim of a session removed, kept on this device for a while so the trim can be undone.
+// Not part of backups or sync: the trimmed session is what gets backed up and synced.
+export interface TrimUndo {
+  sessionId: number;
+  session: JoggingSession; // as it was before trimming
+  removedPoints: LocationPoint[];
+  trimmedAt: number; // epoch milliseconds
+}
+
+// Size and last use of a cached tile, kept apart from the image so eviction doesn't load blobs
+export interface CachedTileInfo {
+  key: string;
+  size: number; // in bytes
+  lastAccessed: number; // epoch milliseconds
+  fetchedAt?: number; // epoch milliseconds, missing for tiles cached before it was recorded
 }
@@ -0,0 +1,77 @@
+import { LocationPoint } from '../types';
+import { calculateDistance } from './locationUtils';
+
+export interface AutoPauseOptions {
+  speedThreshold: number; // in meters per second
+  stopDelay: number; // in seconds
+}
+
+export type AutoPauseAction = 'pause' | 'resume' | null;
+
+// Detects when the runner stops and starts moving again from the filtered location stream
+export class AutoPauseDetector {
+  private options: AutoPauseOptions;
+  private lastMovingTime = 0;
+  private lastPoint: LocationPoint | null = null;
+  private paused = false;
+
+  constructor(options: AutoPauseOptions) {
+    this.options = options;
+  }
+
+  // Time the runner was last seen moving; an auto-pause starts from here
+  get stoppedSince(): number {
+    return this.lastMovingTime;
+  }
+
+  // Start detecting afresh, e.g. after starting or manually resuming
+  reset(now: number): void {
+    this.lastMovingTime = now;
+    this.lastPoint = null;
+    this.paused = false;
+  }
+
+  // Feed the result of the GPS filter for a fix; null means the fix was dropped as jitter
+  update(point: LocationPoint | null, now: number): AutoPauseAction {
+    if (point) {
+      const speed = this.getSpeed(point);
+      this.lastPoint = point;
+
+      if (speed >= this.options.speedThreshold) {
+        this.lastMovingTime = point.timestamp;
+        if (this.paused) {
+          this.paused = false;
+          return 'resume';
+        }
+        return null;
+      }
+    }
+
+    return this.tick(now);
+  }
+
+  // Check for a stop without a new fix; browsers may stop reporting while the device is still
+  tick(now: number): AutoPauseAction {
+    if (!this.paused && now - this.lastMovingTime >= this.options.stopDelay * 1000) {
+      this.paused = true;
+      return 'pause';
+    }
+    return null;
+  }
+
+  // Prefer the reported speed, falling back to the speed since the previous point
+  private getSpeed(point: LocationPoint): number {
+    if (point.speed) return point.speed;
+    if (!this.lastPoint) return 0;
+
+    const seconds = (point.timestamp - this.lastPoint.timestamp) / 1000;
+    if (seconds <= 0) return 0;
+
+    return calculateDistance(
+      this.lastPoint.latitude,
+      this.lastPoint.longitude,
+      point.latitude,
+      point.longitude
+    ) / seconds;
+  }
+}
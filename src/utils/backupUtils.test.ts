@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getLatestVersion } from '../contexts/migrations';
+import { START, at } from '../test/fixtures';
+import { BACKUP_FORMAT, BACKUP_VERSION, decodeBackup } from './backupUtils';
+
+function file(content: object): ArrayBuffer {
+  return new TextEncoder().encode(JSON.stringify(content)).buffer as ArrayBuffer;
+}
+
+// A backup the way version 1 of the database stored sessions and points, dates as JSON strings
+const V1_ARCHIVE = {
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  schemaVersion: 1,
+  exportedAt: at(7200).toISOString(),
+  sessions: [{
+    id: 1,
+    startTime: at(0),
+    endTime: at(1800),
+    autoPauses: [{ start: at(600), end: at(720) }],
+    pausedDuration: 300
+  }],
+  locationPoints: [
+    { sessionId: 1, latitude: 50, longitude: 8, timestamp: START, speed: null, accuracy: NaN },
+    { sessionId: 1, latitude: 50.001, longitude: 8, timestamp: START + 1000, speed: 3 }
+  ]
+};
+
+describe('decodeBackup', () => {
+  it('upgrades the rows of a backup from an older version like the database', async () => {
+    const archive = await decodeBackup(file(V1_ARCHIVE));
+
+    const [session] = archive.sessions;
+    // 300 seconds paused in total, 120 of them auto-paused
+    expect(session.pauses).toEqual([
+      { start: at(-180), end: at(0) },
+      { start: at(600), end: at(720), auto: true }
+    ]);
+    expect(session).not.toHaveProperty('pausedDuration');
+    expect(session.duration).toBe(1500);
+    expect(session.updatedAt).toBe(at(1800).getTime());
+
+    expect(archive.locationPoints[0]).not.toHaveProperty('speed');
+    expect(archive.locationPoints[0]).not.toHaveProperty('accuracy');
+    expect(archive.schemaVersion).toBe(getLatestVersion());
+  });
+
+  it('reads a backup of the latest version as it is', async () => {
+    const archive = await decodeBackup(file({
+      ...V1_ARCHIVE,
+      schemaVersion: getLatestVersion(),
+      sessions: [{ id: 1, startTime: at(0), endTime: at(1800), duration: 1500, pauses: [] }],
+      locationPoints: [V1_ARCHIVE.locationPoints[1]]
+    }));
+
+    expect(archive.sessions[0]).toEqual({ id: 1, startTime: at(0), endTime: at(1800), duration: 1500, pauses: [] });
+  });
+
+  it('rejects a backup from a newer version of the app', async () => {
+    await expect(decodeBackup(file({ ...V1_ARCHIVE, schemaVersion: getLatestVersion() + 1 })))
+      .rejects.toThrow('it was created by a newer version of the app');
+  });
+});
@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { getLatestVersion, upgradeRows } from '../contexts/migrations';
+import { JoggingSession, LocationPoint } from '../types';
+
+export const BACKUP_FORMAT = 'joggingTracker-backup' as const;
+export const BACKUP_VERSION = 1 as const;
+
+// First two bytes of every gzip stream
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+// Session fields holding dates, including those of older versions
+const SESSION_DATE_FIELDS = ['startTime', 'endTime', 'pausedAt'];
+const SESSION_INTERVAL_FIELDS = ['pauses', 'autoPauses'];
+
+const pauseSchema = z.object({
+  start: z.coerce.date(),
+  end: z.coerce.date().optional(),
+  auto: z.boolean().optional()
+});
+
+export const sessionSchema = z.object({
+  id: z.number().int(),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date().optional(),
+  totalDistance: z.number().optional(),
+  averageSpeed: z.number().optional(),
+  maxSpeed: z.number().optional(),
+  elevationGain: z.number().optional(),
+  elevationLoss: z.number().optional(),
+  duration: z.number().optional(),
+  pauses: z.array(pauseSchema).optional(),
+  updatedAt: z.number().optional()
+});
+
+export const locationPointSchema = z.object({
+  id: z.number().int().optional(),
+  sessionId: z.number().int(),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  timestamp: z.number(),
+  speed: z.number().optional(),
+  accuracy: z.number().optional(),
+  altitude: z.number().optional(),
+  altitudeAccuracy: z.number().optional(),
+  heading: z.number().optional()
+});
+
+// Only what's needed to tell which version the rows are from; they are checked once upgraded
+const backupHeaderSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  schemaVersion: z.number().int(),
+  sessions: z.array(z.record(z.unknown())),
+  locationPoints: z.array(z.record(z.unknown()))
+});
+
+const backupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  schemaVersion: z.number().int(), // database version the archive was exported from
+  exportedAt: z.string(),
+  sessions: z.array(sessionSchema),
+  locationPoints: z.array(locationPointSchema)
+});
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  schemaVersion: number;
+  exportedAt: string; // ISO 8601
+  sessions: JoggingSession[];
+  locationPoints: LocationPoint[];
+}
+
+// Build a file name for a backup, e.g. jogging-backup-2024-05-01.json.gz
+export function getBackupFileName(exportedAt: Date, compressed: boolean): string {
+  return `jogging-backup-${exportedAt.toISOString().slice(0, 10)}.json${compressed ? '.gz' : ''}`;
+}
+
+// Serialize an archive to JSON, gzipped when requested
+export async function encodeBackup(archive: BackupArchive, compress: boolean): Promise<BlobPart> {
+  const json = JSON.stringify(archive);
+  if (!compress) return json;
+
+  const stream = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Read a plain or gzipped backup file and validate its contents
+export async function decodeBackup(data: ArrayBuffer): Promise<BackupArchive> {
+  const bytes = new Uint8Array(data);
+  let json: string;
+
+  if (bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1]) {
+    try {
+      const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+      json = await new Response(stream).text();
+    } catch {
+      throw new Error('Invalid backup file: the gzip data is corrupt');
+    }
+  } else {
+    json = new TextDecoder().decode(bytes);
+  }
+
+  let content: unknown;
+  try {
+    content = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid backup file: the file is not valid JSON');
+  }
+
+  const header = validate(backupHeaderSchema, content);
+  if (header.schemaVersion > getLatestVersion()) {
+    throw new Error('Invalid backup file: it was created by a newer version of the app');
+  }
+
+  // Rows from an older version go through the same changes as the database did when it was upgraded
+  if (header.schemaVersion < getLatestVersion()) {
+    const sessions = header.sessions.map(reviveDates) as unknown as JoggingSession[];
+    const locationPoints = header.locationPoints as unknown as LocationPoint[];
+    upgradeRows(sessions, locationPoints, header.schemaVersion);
+    content = { ...(content as object), schemaVersion: getLatestVersion(), sessions, locationPoints };
+  }
+
+  // Inferred zod types are all optional without strict null checks, so the shape is asserted here
+  return validate(backupArchiveSchema, content) as BackupArchive;
+}
+
+function validate<T>(schema: z.ZodType<T>, content: unknown): T {
+  const result = schema.safeParse(content);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+    throw new Error(`Invalid backup file: ${issue.message}${path}`);
+  }
+  return result.data;
+}
+
+// Dates are strings in JSON; the migrations expect the Date objects the database stores
+function reviveDates(session: Record<string, unknown>): Record<string, unknown> {
+  const toDate = (value: unknown) => (typeof value === 'string' ? new Date(value) : value);
+  const revived = { ...session };
+
+  for (const field of SESSION_DATE_FIELDS) {
+    if (field in revived) revived[field] = toDate(revived[field]);
+  }
+  for (const field of SESSION_INTERVAL_FIELDS) {
+    if (Array.isArray(revived[field])) {
+      revived[field] = (revived[field] as Record<string, unknown>[]).map(({ start, end, ...interval }) => ({
+        ...interval,
+        start: toDate(start),
+        ...(end !== undefined && { end: toDate(end) })
+      }));
+    }
+  }
+  return revived;
+}
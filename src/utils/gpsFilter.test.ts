@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { METERS_PER_DEGREE_EAST, ORIGIN, START, point } from '../test/fixtures';
+import { LocationPoint } from '../types';
+import { GpsFilter, filterLocations } from './gpsFilter';
+import { calculateTotalDistance } from './locationUtils';
+
+// A fix `north` and `east` meters from the origin at `seconds` after START
+function fix(north: number, east: number, seconds: number, accuracy = 5): LocationPoint {
+  return point(north, seconds, { longitude: ORIGIN.longitude + east / METERS_PER_DEGREE_EAST, accuracy });
+}
+
+function eastOf(location: LocationPoint): number {
+  return (location.longitude - ORIGIN.longitude) * METERS_PER_DEGREE_EAST;
+}
+
+describe('GpsFilter', () => {
+  it('drops fixes less accurate than the limit', () => {
+    const filter = new GpsFilter({ maxAccuracy: 20 });
+
+    expect(filter.process(fix(0, 0, 0, 30))).toEqual([]);
+    filter.process(fix(0, 0, 1, 10));
+    // The accurate fix is recorded once the next one agrees with it
+    expect(filter.process(fix(20, 0, 4, 10))).toHaveLength(2);
+  });
+
+  it('rejects a jump no runner can make and keeps the track around it', () => {
+    const track = [fix(0, 0, 0), fix(6, 0, 1), fix(12, 0, 2), fix(512, 0, 3), fix(24, 0, 4), fix(30, 0, 5)];
+
+    const kept = filterLocations(track);
+
+    expect(kept).toHaveLength(5);
+    expect(kept).not.toContain(track[3]);
+    expect(calculateTotalDistance(kept)).toBeCloseTo(30, 0);
+  });
+
+  it('re-anchors after several outliers in a row, when the earlier fix was the bad one', () => {
+    // The first fix is 500 m off; the runner is really around 0
+    const track = [fix(500, 0, 0), fix(0, 0, 1), fix(6, 0, 2), fix(12, 0, 3), fix(18, 0, 4), fix(24, 0, 5)];
+
+    const kept = filterLocations(track);
+
+    // After three rejections the unrecorded first fix is dropped and the rejected fixes are kept
+    expect(kept).toEqual(track.slice(1));
+  });
+
+  it('merges jitter around a standing runner into one point', () => {
+    const jitter = [[0, 0], [2, 1], [-1, 3], [3, -2], [-2, -2], [1, 4], [0, -3]];
+    const track = jitter.map(([north, east], second) => fix(north, east, second));
+
+    expect(filterLocations(track)).toEqual([track[0]]);
+  });
+
+  it('keeps real movement smaller than the accuracy once it adds up', () => {
+    const track = Array.from({ length: 11 }, (_, second) => fix(second * 2, 0, second));
+
+    const kept = filterLocations(track);
+
+    // 2 m steps with 5 m accuracy: every third fix is far enough from the last kept one
+    expect(kept.map(location => location.timestamp)).toEqual([0, 3, 6, 9].map(second => START + second * 1000));
+  });
+
+  it('pulls noisy fixes towards the true path when smoothing', () => {
+    // Running north at 3 m/s while the fixes swing 8 m east and west of the path
+    const track = Array.from({ length: 120 }, (_, second) => fix(second * 3, second % 2 ? 8 : -8, second, 10));
+
+    const raw = filterLocations(track);
+    const smoothed = filterLocations(track, { kalman: true });
+    const meanOffset = (points: LocationPoint[]) =>
+      points.reduce((total, location) => total + Math.abs(eastOf(location)), 0) / points.length;
+
+    expect(meanOffset(raw)).toBeCloseTo(8, 0);
+    expect(meanOffset(smoothed)).toBeLessThan(4);
+    // The zigzag adds distance that the smoothed route mostly doesn't have
+    const trueDistance = 119 * 3;
+    expect(calculateTotalDistance(smoothed) - trueDistance).toBeLessThan(calculateTotalDistance(raw) - trueDistance);
+  });
+});
@@ -0,0 +1,137 @@
+import { LocationPoint } from '../types';
+import { calculateDistance } from './locationUtils';
+
+export interface GpsFilterOptions {
+  maxAccuracy: number; // in meters, fixes less accurate than this are dropped
+  maxSpeed: number; // in meters per second, hops implying a faster speed are outliers
+  maxConsecutiveOutliers: number; // after this many rejections in a row the filter re-anchors
+  minMovement: number; // in meters, smallest hop that is kept when accuracy is unknown
+  maxJitterRadius: number; // in meters, upper bound for the accuracy-based jitter radius
+  kalman: boolean; // smooth positions with a Kalman filter
+  kalmanProcessNoise: number; // in meters per second, how fast the true position may drift
+}
+
+export const DEFAULT_GPS_FILTER_OPTIONS: GpsFilterOptions = {
+  maxAccuracy: 50,
+  maxSpeed: 12, // ~43 km/h, well above any running pace
+  maxConsecutiveOutliers: 3,
+  minMovement: 2,
+  maxJitterRadius: 15,
+  kalman: false,
+  kalmanProcessNoise: 3
+};
+
+// Accuracy assumed for smoothing when the browser doesn't report one
+const FALLBACK_ACCURACY = 10;
+
+// Streaming filter that turns raw GPS fixes into points fit for distance and speed calculations.
+// A first fix is only recorded once the next one agrees with it, so a bad anchor can still be dropped.
+export class GpsFilter {
+  private options: GpsFilterOptions;
+  private lastPoint: LocationPoint | null = null;
+  private provisional = false; // lastPoint is an anchor that hasn't been recorded yet
+  private outliers: LocationPoint[] = []; // fixes rejected in a row since the last accepted one
+  private estimate: LocationPoint | null = null; // Kalman position estimate, updated on every usable fix
+  private variance = 0; // Kalman estimate variance in m²
+
+  constructor(options: Partial<GpsFilterOptions> = {}) {
+    this.options = { ...DEFAULT_GPS_FILTER_OPTIONS, ...options };
+  }
+
+  // Clear the filter state, optionally continuing from an already recorded point
+  reset(lastPoint: LocationPoint | null = null): void {
+    this.lastPoint = lastPoint;
+    this.provisional = false;
+    this.outliers = [];
+    this.estimate = lastPoint;
+    this.variance = lastPoint ? (lastPoint.accuracy ?? FALLBACK_ACCURACY) ** 2 : 0;
+  }
+
+  // Process a raw fix; returns the points to record, in order, which is none for a dropped fix
+  process(point: LocationPoint): LocationPoint[] {
+    const { maxAccuracy, maxSpeed, maxConsecutiveOutliers } = this.options;
+
+    if (point.accuracy !== undefined && point.accuracy !== null && point.accuracy > maxAccuracy) {
+      return [];
+    }
+
+    const prev = this.lastPoint;
+    if (!prev) {
+      this.accept(this.options.kalman ? this.smooth(point) : point);
+      this.provisional = true;
+      return [];
+    }
+
+    const seconds = (point.timestamp - prev.timestamp) / 1000;
+    if (seconds <= 0) {
+      return [];
+    }
+
+    // Reject hops or reported speeds that no runner can reach
+    const distance = calculateDistance(prev.latitude, prev.longitude, point.latitude, point.longitude);
+    if (distance / seconds > maxSpeed || (point.speed || 0) > maxSpeed) {
+      this.outliers.push(point);
+      if (this.outliers.length <= maxConsecutiveOutliers) {
+        return [];
+      }
+      // Several outliers in a row usually mean the anchor was the bad fix: drop it if it wasn't recorded
+      // yet and start over from the rejected fixes, keeping those that agree with each other
+      const outliers = this.outliers;
+      this.reset();
+      return outliers.flatMap(outlier => this.process(outlier));
+    }
+    this.outliers = [];
+
+    const smoothed = this.options.kalman ? this.smooth(point) : point;
+    const confirmed = this.provisional ? [prev] : [];
+    this.provisional = false;
+
+    // Merge fixes that stay within the accuracy radius of the last point: that's jitter, not movement
+    const smoothedDistance = calculateDistance(prev.latitude, prev.longitude, smoothed.latitude, smoothed.longitude);
+    if (smoothedDistance < this.getJitterRadius(point)) {
+      return confirmed;
+    }
+
+    return [...confirmed, this.accept(smoothed)];
+  }
+
+  private accept(point: LocationPoint): LocationPoint {
+    this.lastPoint = point;
+    return point;
+  }
+
+  private getJitterRadius(point: LocationPoint): number {
+    const { minMovement, maxJitterRadius } = this.options;
+    return Math.max(minMovement, Math.min(point.accuracy ?? 0, maxJitterRadius));
+  }
+
+  // One-dimensional Kalman update using the fix accuracy as the measurement noise
+  private smooth(point: LocationPoint): LocationPoint {
+    const measurementVariance = (point.accuracy ?? FALLBACK_ACCURACY) ** 2;
+    const estimate = this.estimate;
+
+    if (!estimate) {
+      this.estimate = point;
+      this.variance = measurementVariance;
+      return point;
+    }
+
+    const seconds = Math.max(0, (point.timestamp - estimate.timestamp) / 1000);
+    this.variance += seconds * this.options.kalmanProcessNoise ** 2;
+    const gain = this.variance / (this.variance + measurementVariance);
+    this.variance = (1 - gain) * this.variance;
+
+    this.estimate = {
+      ...point,
+      latitude: estimate.latitude + gain * (point.latitude - estimate.latitude),
+      longitude: estimate.longitude + gain * (point.longitude - estimate.longitude)
+    };
+    return this.estimate;
+  }
+}
+
+// Run a recorded track through the filter in one go
+export function filterLocations(locations: LocationPoint[], options: Partial<GpsFilterOptions> = {}): LocationPoint[] {
+  const filter = new GpsFilter(options);
+  return locations.flatMap(point => filter.process(point));
+}
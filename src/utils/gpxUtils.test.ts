@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { JoggingSession, LocationPoint } from '../types';
+import { sessionToGpx } from './gpxUtils';
+import { parseTrackFile } from './trackParsers';
+
+const GPX_NAMESPACE = 'http://www.topografix.com/GPX/1/1';
+const START = new Date('2024-05-01T07:30:00Z').getTime();
+
+const SESSION: JoggingSession = {
+  id: 1,
+  startTime: new Date(START),
+  endTime: new Date(START + 30000)
+};
+
+const LOCATIONS: LocationPoint[] = [
+  { latitude: 52.520008, longitude: 13.404954, timestamp: START, speed: 2.75, altitude: 34.5 },
+  { latitude: 52.520101, longitude: 13.405012, timestamp: START + 4000, altitude: 35 },
+  { latitude: -33.856784, longitude: -151.215297, timestamp: START + 30000, speed: 0 }
+];
+
+function parse(session: JoggingSession, locations: LocationPoint[]): Document {
+  const doc = new DOMParser().parseFromString(sessionToGpx(session, locations), 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  return doc;
+}
+
+describe('GPX export', () => {
+  it('writes a valid GPX 1.1 track with one point per location', () => {
+    const doc = parse(SESSION, LOCATIONS);
+
+    expect(doc.documentElement.namespaceURI).toBe(GPX_NAMESPACE);
+    expect(doc.documentElement.getAttribute('version')).toBe('1.1');
+    expect(doc.getElementsByTagNameNS(GPX_NAMESPACE, 'name')[0].textContent).toBe('Jogging 2024-05-01 07:30');
+
+    const points = Array.from(doc.getElementsByTagNameNS(GPX_NAMESPACE, 'trkpt')).map(point => ({
+      latitude: parseFloat(point.getAttribute('lat')),
+      longitude: parseFloat(point.getAttribute('lon')),
+      timestamp: Date.parse(point.getElementsByTagNameNS(GPX_NAMESPACE, 'time')[0].textContent)
+    }));
+    expect(points).toEqual(LOCATIONS.map(({ latitude, longitude, timestamp }) => ({ latitude, longitude, timestamp })));
+  });
+
+  it('writes speeds into the track point extension, and only where they were recorded', () => {
+    const speeds = Array.from(parse(SESSION, LOCATIONS).getElementsByTagNameNS('*', 'trkpt'))
+      .map(point => point.getElementsByTagNameNS('*', 'speed')[0]?.textContent);
+
+    expect(speeds).toEqual(['2.75', undefined, '0']);
+  });
+
+  it('writes elevations only where they were recorded', () => {
+    const elevations = Array.from(parse(SESSION, LOCATIONS).getElementsByTagNameNS(GPX_NAMESPACE, 'trkpt'))
+      .map(point => point.getElementsByTagNameNS(GPX_NAMESPACE, 'ele')[0]?.textContent);
+
+    expect(elevations).toEqual(['34.5', '35', undefined]);
+  });
+
+  it('writes an empty track for a session without points', () => {
+    const doc = parse(SESSION, []);
+
+    expect(doc.getElementsByTagNameNS(GPX_NAMESPACE, 'trkseg')).toHaveLength(1);
+    expect(doc.getElementsByTagNameNS(GPX_NAMESPACE, 'trkpt')).toHaveLength(0);
+  });
+});
+
+describe('GPX round trip', () => {
+  it('reads back the coordinates, times, speeds and elevations it wrote', () => {
+    const data = new TextEncoder().encode(sessionToGpx(SESSION, LOCATIONS));
+
+    const track = parseTrackFile('export.gpx', data.buffer as ArrayBuffer);
+
+    expect(track.format).toBe('gpx');
+    expect(track.name).toBe('Jogging 2024-05-01 07:30');
+    expect(track.points).toEqual(LOCATIONS);
+  });
+});
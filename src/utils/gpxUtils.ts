@@ -0,0 +1,74 @@
+import { JoggingSession, LocationPoint } from '../types';
+
+const GPX_NAMESPACE = 'http://www.topografix.com/GPX/1/1';
+const TRACKPOINT_EXTENSION_NAMESPACE = 'http://www.garmin.com/xmlschemas/TrackPointExtension/v2';
+
+// Escape characters that are not allowed in XML text content
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Build a readable track name from the session start time
+export function getSessionTrackName(session: JoggingSession): string {
+  return `Jogging ${session.startTime.toISOString().slice(0, 16).replace('T', ' ')}`;
+}
+
+// Convert a single location point to a GPX <trkpt> element
+function locationToTrackPoint(point: LocationPoint): string {
+  const lines = [
+    `      <trkpt lat="${point.latitude}" lon="${point.longitude}">`
+  ];
+
+  if (point.altitude !== undefined && point.altitude !== null) {
+    lines.push(`        <ele>${point.altitude}</ele>`);
+  }
+  lines.push(`        <time>${new Date(point.timestamp).toISOString()}</time>`);
+
+  // GPX 1.1 has no speed element, so speed goes into the Garmin TrackPointExtension
+  if (point.speed !== undefined && point.speed !== null) {
+    lines.push(
+      '        <extensions>',
+      '          <gpxtpx:TrackPointExtension>',
+      `            <gpxtpx:speed>${point.speed}</gpxtpx:speed>`,
+      '          </gpxtpx:TrackPointExtension>',
+      '        </extensions>'
+    );
+  }
+
+  lines.push('      </trkpt>');
+  return lines.join('\n');
+}
+
+// Serialize a session and its location points to a GPX 1.1 document
+export function sessionToGpx(session: JoggingSession, locations: LocationPoint[]): string {
+  const name = escapeXml(getSessionTrackName(session));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="Jogging Tracker" xmlns="${GPX_NAMESPACE}" xmlns:gpxtpx="${TRACKPOINT_EXTENSION_NAMESPACE}">`,
+    '  <metadata>',
+    `    <name>${name}</name>`,
+    `    <time>${session.startTime.toISOString()}</time>`,
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${name}</name>`,
+    '    <type>running</type>',
+    '    <trkseg>',
+    ...locations.map(locationToTrackPoint),
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n');
+}
+
+// Build a file name for an exported session, e.g. jogging-2024-05-01-0730.gpx
+export function getSessionFileName(session: JoggingSession, extension: string): string {
+  const stamp = session.startTime.toISOString().slice(0, 16).replace('T', '-').replace(':', '');
+  return `jogging-${stamp}.${extension}`;
+}
@@ -1,5 +1,9 @@
 
-import { LocationPoint } from '../types';
+import { LocationPoint, UnitSystem } from '../types';
+
+export const KILOMETER = 1000; // in meters
+export const MILE = 1609.344; // in meters
+export const FOOT = 0.3048; // in meters
 
 // Calculate distance between two coordinates in meters
 export function calculateDistance(
@@ -43,15 +47,9 @@ export function calculateTotalDistance(locations: LocationPoint[]): number {
   return totalDistance;
 }
 
-// Calculate average speed from points in meters per second
-export function calculateAverageSpeed(locations: LocationPoint[]): number {
-  if (locations.length < 2) return 0;
-  
-  const speedPoints = locations.filter(point => point.speed !== undefined && point.speed !== null);
-  if (speedPoints.length === 0) return 0;
-  
-  const totalSpeed = speedPoints.reduce((sum, point) => sum + (point.speed || 0), 0);
-  return totalSpeed / speedPoints.length;
+// Average speed in meters per second over the time spent moving, independent of how often fixes arrived
+export function calculateAverageSpeed(totalDistance: number, movingTime: number): number {
+  return movingTime > 0 ? totalDistance / movingTime : 0;
 }
 
 // Calculate max speed from points in meters per second
@@ -64,10 +62,58 @@ export function calculateMaxSpeed(locations: LocationPoint[]): number {
   return Math.max(...speedPoints.map(point => point.speed || 0));
 }
 
-// Format meters to kilometers (with two decimal places)
-export function formatDistance(meters: number): string {
-  const kilometers = meters / 1000;
-  return kilometers.toFixed(2);
+// Total ascent and descent in meters; changes smaller than the threshold are treated as noise
+export function calculateElevationChange(
+  locations: LocationPoint[],
+  threshold: number = 3,
+  maxAltitudeAccuracy: number = 30
+): { gain: number; loss: number } {
+  let gain = 0;
+  let loss = 0;
+  let reference: number | undefined;
+  
+  for (const point of locations) {
+    if (point.altitude === undefined || point.altitude === null) continue;
+    if (point.altitudeAccuracy !== undefined && point.altitudeAccuracy !== null &&
+        point.altitudeAccuracy > maxAltitudeAccuracy) continue;
+    
+    // Hysteresis: only move the reference once the altitude has changed by more than the threshold
+    if (reference === undefined) {
+      reference = point.altitude;
+    } else if (point.altitude - reference >= threshold) {
+      gain += point.altitude - reference;
+      reference = point.altitude;
+    } else if (reference - point.altitude >= threshold) {
+      loss += reference - point.altitude;
+      reference = point.altitude;
+    }
+  }
+  
+  return { gain, loss };
+}
+
+// Fill in missing point speeds from the distance and time to the previous point
+export function fillMissingSpeeds(locations: LocationPoint[]): LocationPoint[] {
+  return locations.map((point, index) => {
+    if (point.speed !== undefined && point.speed !== null) return point;
+    if (index === 0) return { ...point, speed: 0 };
+    
+    const prev = locations[index - 1];
+    const seconds = (point.timestamp - prev.timestamp) / 1000;
+    const distance = calculateDistance(prev.latitude, prev.longitude, point.latitude, point.longitude);
+    return { ...point, speed: seconds > 0 ? distance / seconds : 0 };
+  });
+}
+
+// Length of the main distance unit of a unit system in meters
+export function getUnitDistance(unitSystem: UnitSystem = 'metric'): number {
+  return unitSystem === 'imperial' ? MILE : KILOMETER;
+}
+
+// Format meters to kilometers or miles (with two decimal places)
+export function formatDistance(meters: number, unitSystem: UnitSystem = 'metric'): string {
+  const units = meters / getUnitDistance(unitSystem);
+  return units.toFixed(2);
 }
 
 // Format seconds to MM:SS or HH:MM:SS format
@@ -84,10 +130,43 @@ export function formatDuration(seconds: number): string {
   return `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 }
 
-// Format speed from m/s to km/h (with one decimal place)
-export function formatSpeed(metersPerSecond: number): string {
-  const kmPerHour = metersPerSecond * 3.6; // Convert m/s to km/h
-  return kmPerHour.toFixed(1);
+// Format an elevation in meters as whole meters or feet
+export function formatElevation(meters: number, unitSystem: UnitSystem = 'metric'): string {
+  const value = unitSystem === 'imperial' ? meters / FOOT : meters;
+  return Math.round(value).toString();
+}
+
+// Convert m/s to km/h or mph
+export function toSpeedUnit(metersPerSecond: number, unitSystem: UnitSystem = 'metric'): number {
+  return metersPerSecond * 3600 / getUnitDistance(unitSystem);
+}
+
+// Convert km/h or mph to m/s
+export function fromSpeedUnit(value: number, unitSystem: UnitSystem = 'metric'): number {
+  return value * getUnitDistance(unitSystem) / 3600;
+}
+
+// Format speed from m/s to km/h or mph (with one decimal place)
+export function formatSpeed(metersPerSecond: number, unitSystem: UnitSystem = 'metric'): string {
+  return toSpeedUnit(metersPerSecond, unitSystem).toFixed(1);
+}
+
+// Pace in seconds per unit distance (1000 m for min/km, 1609.344 m for min/mi)
+export function calculatePace(metersPerSecond: number, unitMeters: number = KILOMETER): number {
+  if (!Number.isFinite(metersPerSecond) || metersPerSecond <= 0) return Infinity;
+  return unitMeters / metersPerSecond;
+}
+
+// Format speed from m/s as pace in M:SS per unit distance, or --:-- when standing still
+export function formatPace(metersPerSecond: number, unitMeters: number = KILOMETER): string {
+  const pace = calculatePace(metersPerSecond, unitMeters);
+  // Anything slower than 100 min per unit is effectively not moving
+  if (!Number.isFinite(pace) || pace >= 6000) return '--:--';
+  
+  const totalSeconds = Math.round(pace);
+  const minutes = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
 }
 
 // Determine activity type based on speed (rough estimate)
@@ -0,0 +1,62 @@
+import { MapStyle, UserPreferences } from '../types';
+
+export interface TileProvider {
+  id: MapStyle;
+  name: string;
+  url: string; // XYZ template, see getTileUrl
+  attribution: string;
+  maxZoom: number;
+}
+
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const TILE_PROVIDERS: TileProvider[] = [
+  {
+    id: 'streets',
+    name: 'Streets',
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: OSM_ATTRIBUTION,
+    maxZoom: 19
+  },
+  {
+    id: 'topo',
+    name: 'Topographic',
+    url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: `${OSM_ATTRIBUTION}, SRTM | Style: &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (CC-BY-SA)`,
+    maxZoom: 17
+  },
+  {
+    id: 'dark',
+    name: 'Dark',
+    url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+    attribution: `${OSM_ATTRIBUTION} &copy; <a href="https://carto.com/attributions">CARTO</a>`,
+    maxZoom: 19
+  },
+  {
+    id: 'satellite',
+    name: 'Satellite',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community',
+    maxZoom: 19
+  }
+];
+
+// Whether a custom URL template can be used to load tiles
+export function isValidTileTemplate(template: string): boolean {
+  return /^https?:\/\//.test(template) &&
+    template.includes('{z}') && template.includes('{x}') && template.includes('{y}');
+}
+
+// The tile provider chosen in the preferences, falling back to streets for an unusable custom template
+export function getTileProvider(preferences: UserPreferences): TileProvider {
+  if (preferences.mapStyle === 'custom' && isValidTileTemplate(preferences.customTileUrl)) {
+    return {
+      id: 'custom',
+      name: 'Custom',
+      url: preferences.customTileUrl,
+      attribution: preferences.customTileAttribution,
+      maxZoom: 19
+    };
+  }
+  return TILE_PROVIDERS.find(provider => provider.id === preferences.mapStyle) || TILE_PROVIDERS[0];
+}
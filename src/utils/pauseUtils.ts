@@ -0,0 +1,71 @@
+import { JoggingSession, LocationPoint, PauseInterval } from '../types';
+
+// Total paused time in seconds; open pauses count up to `until`
+export function getPausedDuration(pauses: PauseInterval[] = [], until: number = Date.now()): number {
+  return pauses.reduce((total, pause) => {
+    const start = pause.start.getTime();
+    const end = pause.end ? pause.end.getTime() : until;
+    return total + Math.max(0, end - start) / 1000;
+  }, 0);
+}
+
+// The pause that hasn't ended yet, if the session is currently paused
+export function getOpenPause(pauses: PauseInterval[] = []): PauseInterval | undefined {
+  return pauses.find(pause => !pause.end);
+}
+
+// Close any open pause at the given time
+export function closePauses(pauses: PauseInterval[] = [], end: Date): PauseInterval[] {
+  return pauses.map(pause => (pause.end ? pause : { ...pause, end }));
+}
+
+// Limit pauses to a time range, dropping those entirely outside it, e.g. after trimming a session
+export function clipPauses(pauses: PauseInterval[] = [], start: Date, end: Date): PauseInterval[] {
+  return closePauses(pauses, end)
+    .filter(pause => pause.end > start && pause.start < end)
+    .map(pause => ({
+      ...pause,
+      start: pause.start < start ? start : pause.start,
+      end: pause.end > end ? end : pause.end
+    }));
+}
+
+// Wall-clock time from start to end of a session in seconds
+export function getElapsedTime(session: JoggingSession): number {
+  if (!session.endTime) return session.duration || 0;
+  return Math.max(0, (session.endTime.getTime() - session.startTime.getTime()) / 1000);
+}
+
+// Whether the pauses of a session are known; sessions imported or saved by old builds may have none
+export function hasPauseRecords(session: JoggingSession): boolean {
+  return !!session.pauses && session.pauses.length > 0;
+}
+
+// Time spent moving in seconds, i.e. elapsed time without pauses
+export function getMovingTime(session: JoggingSession): number {
+  if (session.duration !== undefined) return session.duration;
+  return Math.max(0, getElapsedTime(session) - getPausedDuration(session.pauses));
+}
+
+// Split a route into separate segments wherever a pause falls between two points
+export function splitRouteAtPauses(locations: LocationPoint[], pauses: PauseInterval[] = []): LocationPoint[][] {
+  if (locations.length === 0) return [];
+
+  const segments: LocationPoint[][] = [[locations[0]]];
+  for (let i = 1; i < locations.length; i++) {
+    const prev = locations[i - 1];
+    const current = locations[i];
+    const pausedBetween = pauses.some(pause =>
+      pause.start.getTime() < current.timestamp &&
+      (pause.end ? pause.end.getTime() : Infinity) > prev.timestamp
+    );
+
+    if (pausedBetween) {
+      segments.push([current]);
+    } else {
+      segments[segments.length - 1].push(current);
+    }
+  }
+
+  return segments;
+}
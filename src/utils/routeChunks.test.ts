@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { route } from '../test/fixtures';
+import { CHUNK_SIZE, RouteChunks } from './routeChunks';
+
+describe('RouteChunks', () => {
+  it('joins the chunks up and gives the route back in order', () => {
+    const points = route(3 * CHUNK_SIZE, 1);
+
+    const chunks = new RouteChunks(points);
+
+    expect(chunks.length).toBe(points.length);
+    expect(chunks.getChunks()).toHaveLength(4);
+    expect(chunks.getChunks()[1][0]).toBe(chunks.getChunks()[0][CHUNK_SIZE - 1]);
+    expect(chunks.toArray()).toEqual(points);
+    expect(chunks.last).toBe(points[points.length - 1]);
+  });
+
+  it('keeps handing out the full chunks when a point is added', () => {
+    const [first, ...rest] = route(CHUNK_SIZE + 1, 1);
+    const chunks = new RouteChunks(rest);
+    const before = chunks.getChunks();
+
+    chunks.add({ ...first, timestamp: first.timestamp + 1000000 });
+
+    expect(chunks.getChunks()).not.toBe(before);
+    expect(chunks.getChunks()[0]).toBe(before[0]);
+    expect(before[1]).toHaveLength(2);
+    expect(chunks.getChunks()[1]).toHaveLength(3);
+  });
+});
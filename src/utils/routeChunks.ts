@@ -0,0 +1,49 @@
+import { LocationPoint } from '../types';
+
+// Points per chunk; adding a point copies at most this many
+export const CHUNK_SIZE = 500;
+
+// An append-only route kept in chunks. Full chunks never change again, so adding a point and handing out
+// the route stays cheap however long the run gets, and a full chunk can be compared by reference.
+// Each chunk starts with the last point of the chunk before it, so drawn one by one they join up.
+export class RouteChunks {
+  private full: LocationPoint[][] = [];
+  private tail: LocationPoint[] = [];
+  private count = 0;
+  private chunks: LocationPoint[][] | null = null; // handed out until the route changes again
+
+  constructor(locations: LocationPoint[] = []) {
+    locations.forEach(point => this.add(point));
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  get last(): LocationPoint | null {
+    return this.tail[this.tail.length - 1] || null;
+  }
+
+  add(point: LocationPoint): void {
+    if (this.tail.length === CHUNK_SIZE) {
+      this.full.push(this.tail);
+      this.tail = [this.tail[CHUNK_SIZE - 1]];
+    }
+    this.tail.push(point);
+    this.count++;
+    this.chunks = null;
+  }
+
+  // The chunks of the route; new arrays after every change, with the full chunks shared between them
+  getChunks(): LocationPoint[][] {
+    if (!this.chunks) {
+      this.chunks = this.tail.length > 0 ? [...this.full, this.tail.slice()] : [];
+    }
+    return this.chunks;
+  }
+
+  // The whole route as one array, e.g. for the final stats
+  toArray(): LocationPoint[] {
+    return this.getChunks().flatMap((chunk, index) => (index === 0 ? chunk : chunk.slice(1)));
+  }
+}
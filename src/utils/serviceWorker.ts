@@ -0,0 +1,11 @@
+// Register the service worker that makes the app installable and usable offline.
+// Only production builds register it, since the dev server's modules can't be precached.
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Error registering service worker:', error);
+    });
+  });
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { START, route } from '../test/fixtures';
+import { JoggingSession } from '../types';
+import { computeSessionStats, diffSessionStats } from './sessionStats';
+
+function session(changes: Partial<JoggingSession>): JoggingSession {
+  return { id: 1, startTime: new Date(START), endTime: new Date(START + 1800000), ...changes };
+}
+
+describe('computeSessionStats', () => {
+  it('derives the moving time from the recorded pauses', () => {
+    const stats = computeSessionStats(session({
+      duration: 1800,
+      pauses: [{ start: new Date(START + 600000), end: new Date(START + 900000) }]
+    }), route(1800));
+
+    expect(stats.duration).toBe(1500);
+    expect(stats.totalDistance).toBeCloseTo(5400, -1);
+    expect(stats.averageSpeed).toBeCloseTo(stats.totalDistance / 1500);
+  });
+
+  it('keeps the stored moving time of a session without pause records', () => {
+    const withoutPauses = computeSessionStats(session({ duration: 1500 }), route(1800));
+    const withEmptyPauses = computeSessionStats(session({ duration: 1500, pauses: [] }), route(1800));
+
+    expect(withoutPauses.duration).toBe(1500);
+    expect(withEmptyPauses.duration).toBe(1500);
+    expect(diffSessionStats(session({ duration: 1500 }), withoutPauses).map(({ field }) => field))
+      .not.toContain('duration');
+  });
+
+  it('falls back to the wall-clock time when no moving time is stored', () => {
+    expect(computeSessionStats(session({}), route(1800)).duration).toBe(1800);
+  });
+
+  it('keeps the stored values of a session without points', () => {
+    const stats = computeSessionStats(session({ totalDistance: 5000, duration: 1250, maxSpeed: 5 }), []);
+
+    expect(stats).toMatchObject({ totalDistance: 5000, duration: 1250, averageSpeed: 4, maxSpeed: 5 });
+  });
+});
@@ -0,0 +1,81 @@
+import { JoggingSession, LocationPoint } from '../types';
+import { calculateAverageSpeed, calculateElevationChange } from './locationUtils';
+import { getElapsedTime, getMovingTime, getPausedDuration, hasPauseRecords } from './pauseUtils';
+import { StatsAccumulator } from './statsAccumulator';
+
+export type SessionStatField =
+  | 'totalDistance'
+  | 'duration'
+  | 'averageSpeed'
+  | 'maxSpeed'
+  | 'elevationGain'
+  | 'elevationLoss';
+
+export type SessionStats = Pick<JoggingSession, SessionStatField>;
+
+export interface SessionStatDifference {
+  field: SessionStatField;
+  before: number;
+  after: number;
+}
+
+export interface SessionStatsChange {
+  session: JoggingSession;
+  stats: SessionStats; // the recomputed values of every field
+  differences: SessionStatDifference[]; // only the fields that changed noticeably
+}
+
+// Differences up to these amounts are rounding, not drift, and are not worth rewriting a session for
+const TOLERANCES: Record<SessionStatField, number> = {
+  totalDistance: 1, // in meters
+  duration: 1, // in seconds
+  averageSpeed: 0.01, // in meters per second
+  maxSpeed: 0.01, // in meters per second
+  elevationGain: 1, // in meters
+  elevationLoss: 1 // in meters
+};
+
+// Summary statistics of a finished session recalculated from its stored points and pauses.
+// Without points only the average speed can be recalculated, the other stored values are kept.
+// Without pause records the stored moving time is kept too, the wall-clock time would count its pauses.
+export function computeSessionStats(session: JoggingSession, locations: LocationPoint[]): SessionStats {
+  if (locations.length === 0) {
+    const duration = getMovingTime(session);
+    return {
+      totalDistance: session.totalDistance || 0,
+      duration,
+      averageSpeed: calculateAverageSpeed(session.totalDistance || 0, duration),
+      maxSpeed: session.maxSpeed || 0,
+      elevationGain: session.elevationGain || 0,
+      elevationLoss: session.elevationLoss || 0
+    };
+  }
+
+  const stats = StatsAccumulator.from(locations);
+  const elevation = calculateElevationChange(locations);
+  const duration = hasPauseRecords(session) || session.duration === undefined
+    ? getDurationFromPauses(session, locations)
+    : session.duration;
+
+  return {
+    totalDistance: stats.distance,
+    duration,
+    averageSpeed: calculateAverageSpeed(stats.distance, duration),
+    maxSpeed: stats.maxSpeed,
+    elevationGain: elevation.gain,
+    elevationLoss: elevation.loss
+  };
+}
+
+// Moving time as the wall-clock time of the session without its pauses
+function getDurationFromPauses(session: JoggingSession, locations: LocationPoint[]): number {
+  const until = session.endTime ? session.endTime.getTime() : locations[locations.length - 1].timestamp;
+  return Math.max(0, Math.round(getElapsedTime(session) - getPausedDuration(session.pauses, until)));
+}
+
+// The fields whose stored value differs from the recomputed one by more than rounding
+export function diffSessionStats(session: JoggingSession, stats: SessionStats): SessionStatDifference[] {
+  return (Object.keys(TOLERANCES) as SessionStatField[])
+    .map(field => ({ field, before: session[field] || 0, after: stats[field] || 0 }))
+    .filter(({ field, before, after }) => Math.abs(after - before) > TOLERANCES[field]);
+}
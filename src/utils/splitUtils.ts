@@ -0,0 +1,101 @@
+import { LocationPoint, PauseInterval } from '../types';
+import { KILOMETER, calculateDistance } from './locationUtils';
+
+export interface Split {
+  index: number; // 1-based split number
+  distance: number; // in meters, less than the split distance for a final partial split
+  duration: number; // in seconds of moving time
+  pace: number; // in seconds per split distance, normalized for partial splits
+  endLatitude: number;
+  endLongitude: number;
+  isPartial: boolean;
+}
+
+// Paused time in milliseconds between the session start and `time`
+function pausedTimeBefore(time: number, pauses: PauseInterval[]): number {
+  return pauses.reduce((total, pause) => {
+    const start = pause.start.getTime();
+    const end = Math.min(pause.end ? pause.end.getTime() : time, time);
+    return total + Math.max(0, end - start);
+  }, 0);
+}
+
+// Calculate splits over the route, interpolating the exact crossing point at each boundary
+export function calculateSplits(
+  locations: LocationPoint[],
+  splitDistance: number = KILOMETER,
+  pauses: PauseInterval[] = []
+): Split[] {
+  if (locations.length < 2) return [];
+
+  // Work on the moving clock so paused time doesn't count towards any split
+  const movingTime = (point: LocationPoint) => point.timestamp - pausedTimeBefore(point.timestamp, pauses);
+
+  const splits: Split[] = [];
+  let splitStartTime = movingTime(locations[0]);
+  let coveredDistance = 0; // distance covered within the current split
+
+  for (let i = 1; i < locations.length; i++) {
+    const prev = locations[i - 1];
+    const current = locations[i];
+    const hop = calculateDistance(prev.latitude, prev.longitude, current.latitude, current.longitude);
+    const prevTime = movingTime(prev);
+    const currentTime = movingTime(current);
+    let hopDone = 0;
+
+    // A single hop may cross more than one boundary on very sparse tracks
+    while (hop > 0 && coveredDistance + (hop - hopDone) >= splitDistance) {
+      hopDone += splitDistance - coveredDistance;
+      const fraction = hopDone / hop;
+      const crossingTime = prevTime + fraction * (currentTime - prevTime);
+      const duration = (crossingTime - splitStartTime) / 1000;
+
+      splits.push({
+        index: splits.length + 1,
+        distance: splitDistance,
+        duration,
+        pace: duration,
+        endLatitude: prev.latitude + fraction * (current.latitude - prev.latitude),
+        endLongitude: prev.longitude + fraction * (current.longitude - prev.longitude),
+        isPartial: false
+      });
+
+      splitStartTime = crossingTime;
+      coveredDistance = 0;
+    }
+
+    coveredDistance += hop - hopDone;
+  }
+
+  // Whatever is left after the last full boundary becomes a partial split
+  const last = locations[locations.length - 1];
+  if (coveredDistance > 1) {
+    const duration = (movingTime(last) - splitStartTime) / 1000;
+    splits.push({
+      index: splits.length + 1,
+      distance: coveredDistance,
+      duration,
+      pace: duration * (splitDistance / coveredDistance),
+      endLatitude: last.latitude,
+      endLongitude: last.longitude,
+      isPartial: true
+    });
+  }
+
+  return splits;
+}
+
+// Find the fastest and slowest splits, ignoring a final partial split when there are full ones
+export function getSplitExtremes(splits: Split[]): { fastest?: Split; slowest?: Split } {
+  const fullSplits = splits.filter(split => !split.isPartial);
+  const candidates = fullSplits.length >= 2 ? fullSplits : splits;
+  if (candidates.length < 2) return {};
+
+  return candidates.reduce(
+    (extremes, split) => ({
+      fastest: split.pace < extremes.fastest.pace ? split : extremes.fastest,
+      slowest: split.pace > extremes.slowest.pace ? split : extremes.slowest
+    }),
+    { fastest: candidates[0], slowest: candidates[0] }
+  );
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { point } from '../test/fixtures';
+import { calculateDistance } from './locationUtils';
+import { StatsAccumulator } from './statsAccumulator';
+
+// Count the distance calculations, the bulk of the work per point
+vi.mock('./locationUtils', async importOriginal => {
+  const actual = await importOriginal<typeof import('./locationUtils')>();
+  return { ...actual, calculateDistance: vi.fn(actual.calculateDistance) };
+});
+
+describe('StatsAccumulator', () => {
+  it('uses the reported speeds for the current and top speed', () => {
+    const stats = StatsAccumulator.from([
+      point(0, 0, { speed: 2 }), point(3, 1, { speed: 4 }), point(6, 2, { speed: 3 })
+    ]);
+
+    expect(stats.distance).toBeCloseTo(6, 1);
+    expect(stats.currentSpeed).toBe(3);
+    expect(stats.maxSpeed).toBe(4);
+  });
+
+  it('derives the speed over the last seconds when none is reported', () => {
+    const stats = new StatsAccumulator();
+    for (let second = 0; second <= 30; second++) {
+      stats.add(point(second * 2.5, second));
+    }
+
+    expect(stats.currentSpeed).toBeCloseTo(2.5, 2);
+  });
+
+  it('starts the speed window over after a gap', () => {
+    const stats = StatsAccumulator.from([point(0, 0), point(30, 10), point(30, 100), point(33, 101)]);
+
+    expect(stats.currentSpeed).toBeCloseTo(3, 1);
+  });
+
+  it('does the same work for every point however long the run gets', () => {
+    const points = Array.from({ length: 10800 }, (_, second) => point(second * 3, second));
+    vi.mocked(calculateDistance).mockClear();
+
+    const stats = StatsAccumulator.from(points);
+
+    expect(stats.distance).toBeCloseTo(32397, -1);
+    // One distance per new segment, none for going over the route again
+    expect(calculateDistance).toHaveBeenCalledTimes(points.length - 1);
+  });
+});
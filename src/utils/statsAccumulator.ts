@@ -0,0 +1,78 @@
+import { LocationPoint } from '../types';
+import { calculateDistance } from './locationUtils';
+
+// Span of recent positions a speed is derived from when the device reports none
+const SPEED_WINDOW = 10; // in seconds
+
+interface WindowEntry {
+  point: LocationPoint;
+  distance: number; // in meters, from the previous entry
+}
+
+// Running route statistics updated point by point in constant time, so a long run stays cheap to track
+export class StatsAccumulator {
+  private lastPoint: LocationPoint | null = null;
+  private totalDistance = 0; // in meters
+  private lastSpeed = 0;
+  private topSpeed = 0;
+  private window: WindowEntry[] = [];
+  private windowDistance = 0; // in meters, along the points in the window
+
+  // Start from a list of points, e.g. the stored route of a resumed session
+  static from(locations: LocationPoint[]): StatsAccumulator {
+    const accumulator = new StatsAccumulator();
+    locations.forEach(point => accumulator.add(point));
+    return accumulator;
+  }
+
+  get distance(): number {
+    return this.totalDistance;
+  }
+
+  get maxSpeed(): number {
+    return this.topSpeed;
+  }
+
+  // The speed reported with the last point, or the speed over the last few seconds if there was none
+  get currentSpeed(): number {
+    return this.lastSpeed;
+  }
+
+  // Add the next point of the route; points must arrive in time order
+  add(point: LocationPoint): void {
+    const segment = this.lastPoint
+      ? calculateDistance(this.lastPoint.latitude, this.lastPoint.longitude, point.latitude, point.longitude)
+      : 0;
+    this.totalDistance += segment;
+    this.slideWindow(point, segment);
+
+    const hasSpeed = point.speed !== undefined && point.speed !== null;
+    this.lastSpeed = hasSpeed ? point.speed : this.getWindowSpeed();
+    this.topSpeed = Math.max(this.topSpeed, this.lastSpeed);
+    this.lastPoint = point;
+  }
+
+  private slideWindow(point: LocationPoint, segment: number): void {
+    // A gap longer than the window means the runner paused, so start over instead of averaging across it
+    if (this.lastPoint && point.timestamp - this.lastPoint.timestamp > SPEED_WINDOW * 1000) {
+      this.window = [];
+      this.windowDistance = 0;
+      segment = 0;
+    }
+
+    this.window.push({ point, distance: segment });
+    this.windowDistance += segment;
+
+    // Keep the newest point that is at least the window span old, so the speed covers the whole span
+    while (this.window.length > 1 && point.timestamp - this.window[1].point.timestamp >= SPEED_WINDOW * 1000) {
+      this.window.shift();
+      this.windowDistance -= this.window[0].distance;
+    }
+  }
+
+  private getWindowSpeed(): number {
+    const first = this.window[0].point;
+    const seconds = (this.window[this.window.length - 1].point.timestamp - first.timestamp) / 1000;
+    return seconds > 0 ? this.windowDistance / seconds : 0;
+  }
+}
@@ -0,0 +1,71 @@
+export interface TileCoords {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Web Mercator can't show the poles; tiles stop at this latitude
+const MAX_LATITUDE = 85.0511287798;
+const SUBDOMAINS = ['a', 'b', 'c'];
+
+// Slippy map tile containing a coordinate at the given zoom level
+export function latLonToTile(latitude: number, longitude: number, zoom: number): TileCoords {
+  const tileCount = 2 ** zoom;
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * Math.PI / 180;
+
+  const x = Math.floor((longitude + 180) / 360 * tileCount);
+  const y = Math.floor((1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2 * tileCount);
+
+  return {
+    x: Math.max(0, Math.min(tileCount - 1, x)),
+    y: Math.max(0, Math.min(tileCount - 1, y)),
+    z: zoom
+  };
+}
+
+// Every tile covering a bounding box at one zoom level
+export function getTilesInBounds(bounds: BoundingBox, zoom: number): TileCoords[] {
+  const topLeft = latLonToTile(bounds.north, bounds.west, zoom);
+  const bottomRight = latLonToTile(bounds.south, bounds.east, zoom);
+  const tiles: TileCoords[] = [];
+
+  for (let x = topLeft.x; x <= bottomRight.x; x++) {
+    for (let y = topLeft.y; y <= bottomRight.y; y++) {
+      tiles.push({ x, y, z: zoom });
+    }
+  }
+  return tiles;
+}
+
+// Number of tiles covering a bounding box across a range of zoom levels
+export function countTilesInBounds(bounds: BoundingBox, minZoom: number, maxZoom: number): number {
+  let count = 0;
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const topLeft = latLonToTile(bounds.north, bounds.west, zoom);
+    const bottomRight = latLonToTile(bounds.south, bounds.east, zoom);
+    count += (bottomRight.x - topLeft.x + 1) * (bottomRight.y - topLeft.y + 1);
+  }
+  return count;
+}
+
+// Fill a Leaflet-style URL template such as https://{s}.tile.example.org/{z}/{x}/{y}.png
+export function getTileUrl(template: string, { x, y, z }: TileCoords): string {
+  return template
+    .replace('{s}', SUBDOMAINS[Math.abs(x + y) % SUBDOMAINS.length])
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+    .replace('{r}', '');
+}
+
+// Cache key of a tile, the same whichever subdomain it was loaded from
+export function getTileKey(template: string, { x, y, z }: TileCoords): string {
+  return `${template.replace('{s}.', '').replace('{r}', '')}|${z}/${x}/${y}`;
+}
@@ -0,0 +1,47 @@
+import { LocationPoint } from '../types';
+import { calculateDistance } from './locationUtils';
+
+export interface TimeSeriesPoint {
+  index: number; // index of the location point this sample came from
+  elapsed: number; // in seconds since the first point
+  distance: number; // in meters covered so far
+  speed: number; // in meters per second
+  altitude: number | null; // in meters, null when the fix had no altitude
+}
+
+// Build elapsed-time samples of cumulative distance, speed and altitude from ordered location points
+export function buildTimeSeries(locations: LocationPoint[]): TimeSeriesPoint[] {
+  if (locations.length === 0) return [];
+
+  const startTime = locations[0].timestamp;
+  let distance = 0;
+
+  return locations.map((point, index) => {
+    if (index > 0) {
+      const prev = locations[index - 1];
+      distance += calculateDistance(prev.latitude, prev.longitude, point.latitude, point.longitude);
+    }
+
+    return {
+      index,
+      elapsed: (point.timestamp - startTime) / 1000,
+      distance,
+      speed: point.speed || 0,
+      altitude: point.altitude ?? null
+    };
+  });
+}
+
+// Keep at most `maxPoints` evenly spaced samples so long runs stay responsive to chart
+export function downsample<T>(samples: T[], maxPoints: number): T[] {
+  if (samples.length <= maxPoints) return samples;
+
+  const step = samples.length / maxPoints;
+  const result: T[] = [];
+  for (let i = 0; i < maxPoints; i++) {
+    result.push(samples[Math.floor(i * step)]);
+  }
+  // Always end on the final sample so the chart covers the whole session
+  result[result.length - 1] = samples[samples.length - 1];
+  return result;
+}
@@ -0,0 +1,150 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseTrackFile } from './trackParsers';
+
+// Seconds between the Unix epoch and the FIT epoch
+const FIT_EPOCH_OFFSET = 631065600;
+const START = Date.UTC(2024, 4, 1, 7, 30);
+
+function text(content: string): ArrayBuffer {
+  return new TextEncoder().encode(content).buffer as ArrayBuffer;
+}
+
+const TCX = `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+  <Activities>
+    <Activity Sport="Running">
+      <Id>2024-05-01T07:30:00Z</Id>
+      <Lap StartTime="2024-05-01T07:30:00Z">
+        <Track>
+          <Trackpoint>
+            <Time>2024-05-01T07:30:05Z</Time>
+            <Position><LatitudeDegrees>52.5201</LatitudeDegrees><LongitudeDegrees>13.405</LongitudeDegrees></Position>
+            <AltitudeMeters>35</AltitudeMeters>
+          </Trackpoint>
+          <Trackpoint>
+            <Time>2024-05-01T07:30:02Z</Time>
+            <HeartRateBpm><Value>120</Value></HeartRateBpm>
+          </Trackpoint>
+          <Trackpoint>
+            <Time>2024-05-01T07:30:00Z</Time>
+            <Position><LatitudeDegrees>52.52</LatitudeDegrees><LongitudeDegrees>13.4049</LongitudeDegrees></Position>
+            <Extensions><TPX xmlns="http://www.garmin.com/xmlschemas/ActivityExtension/v2"><Speed>2.8</Speed></TPX></Extensions>
+          </Trackpoint>
+        </Track>
+      </Lap>
+    </Activity>
+  </Activities>
+</TrainingCenterDatabase>`;
+
+interface FitRecord {
+  seconds: number; // after START
+  latitude: number;
+  longitude: number;
+  speed: number; // in meters per second
+  altitude: number; // in meters
+}
+
+// A FIT file with one definition and a record message per point, the fields FIT-lite reads
+function fitFile(records: FitRecord[]): ArrayBuffer {
+  const bytes: number[] = [];
+  const push = (value: number, size: number) => {
+    for (let i = 0; i < size; i++) bytes.push((value >>> (8 * i)) & 0xff);
+  };
+
+  // Definition of local message 0 as a little-endian record message: timestamp, position, speed, altitude
+  bytes.push(0x40, 0, 0);
+  push(20, 2);
+  bytes.push(5, 253, 4, 0x86, 0, 4, 0x85, 1, 4, 0x85, 6, 2, 0x84, 2, 2, 0x84);
+
+  for (const record of records) {
+    bytes.push(0x00);
+    push(START / 1000 - FIT_EPOCH_OFFSET + record.seconds, 4);
+    push(Math.round(record.latitude * 2 ** 31 / 180), 4);
+    push(Math.round(record.longitude * 2 ** 31 / 180), 4);
+    push(Math.round(record.speed * 1000), 2);
+    push(Math.round((record.altitude + 500) * 5), 2);
+  }
+
+  const header = [12, 0x10, 0, 0];
+  const size = bytes.length;
+  header.push(size & 0xff, (size >> 8) & 0xff, (size >> 16) & 0xff, (size >> 24) & 0xff);
+  header.push(...Array.from('.FIT', char => char.charCodeAt(0)));
+  return new Uint8Array([...header, ...bytes]).buffer;
+}
+
+const FIT_RECORDS: FitRecord[] = [
+  { seconds: 0, latitude: 52.52, longitude: 13.4049, speed: 2.5, altitude: 34 },
+  { seconds: 1, latitude: 52.52003, longitude: 13.40492, speed: 3, altitude: 34.2 }
+];
+
+describe('parseTrackFile', () => {
+  it('reads the positioned track points of a TCX file in time order', () => {
+    const track = parseTrackFile('run.tcx', text(TCX));
+
+    expect(track.format).toBe('tcx');
+    expect(track.name).toBe('2024-05-01T07:30:00Z');
+    expect(track.points).toEqual([
+      { latitude: 52.52, longitude: 13.4049, timestamp: START, speed: 2.8, altitude: undefined },
+      { latitude: 52.5201, longitude: 13.405, timestamp: START + 5000, speed: undefined, altitude: 35 }
+    ]);
+  });
+
+  it('reads position, time, speed and altitude from the record messages of a FIT file', () => {
+    const track = parseTrackFile('run.FIT', fitFile(FIT_RECORDS));
+
+    expect(track.format).toBe('fit');
+    expect(track.points).toHaveLength(2);
+    track.points.forEach((point, index) => {
+      const record = FIT_RECORDS[index];
+      expect(point.timestamp).toBe(START + record.seconds * 1000);
+      // Semicircles resolve to well under a millimeter
+      expect(point.latitude).toBeCloseTo(record.latitude, 7);
+      expect(point.longitude).toBeCloseTo(record.longitude, 7);
+      expect(point.speed).toBe(record.speed);
+      expect(point.altitude).toBeCloseTo(record.altitude, 1);
+    });
+  });
+
+  it('rejects a FIT file that ends in the middle of a message', () => {
+    const data = fitFile(FIT_RECORDS);
+    const truncated = new Uint8Array(data.slice(0, data.byteLength - 4));
+    // Claim the full size, so the header still looks valid
+    new DataView(truncated.buffer).setUint32(4, data.byteLength - 16, true);
+
+    expect(() => parseTrackFile('run.fit', truncated.buffer)).toThrow(
+      'Invalid FIT file: the file ends in the middle of a message'
+    );
+  });
+
+  it('rejects files that are not what their extension says', () => {
+    expect(() => parseTrackFile('run.fit', text('<gpx version="1.1"></gpx>'))).toThrow(
+      'Invalid FIT file: missing or corrupt FIT header'
+    );
+    expect(() => parseTrackFile('run.gpx', text('<gpx><trk>'))).toThrow(
+      'Invalid GPX file: the XML could not be parsed'
+    );
+    expect(() => parseTrackFile('run.tcx', text('<gpx version="1.1"/>'))).toThrow(
+      'Invalid TCX file: missing <TrainingCenterDatabase> root element'
+    );
+    expect(() => parseTrackFile('run.kml', text(''))).toThrow('Unsupported file type: run.kml');
+  });
+
+  it('rejects tracks with unusable points', () => {
+    const gpx = (...points: [number, string][]) => text(
+      `<gpx version="1.1"><trk><trkseg>${
+        points.map(([lat, time]) => `<trkpt lat="${lat}" lon="13.4"><time>${time}</time></trkpt>`).join('')
+      }</trkseg></trk></gpx>`
+    );
+
+    expect(() => parseTrackFile('run.gpx', gpx([52.5, '2024-05-01T07:30:00Z']))).toThrow(
+      'Invalid GPX file: at least two track points are required'
+    );
+    expect(() => parseTrackFile('run.gpx', gpx([52.5, '2024-05-01T07:30:00Z'], [95, '2024-05-01T07:30:01Z']))).toThrow(
+      'Invalid GPX file: point 2 has invalid coordinates'
+    );
+    expect(() => parseTrackFile('run.gpx', gpx([52.5, 'yesterday'], [52.5, '2024-05-01T07:30:01Z']))).toThrow(
+      'Invalid GPX file: point 1 has no valid time'
+    );
+  });
+});
@@ -0,0 +1,303 @@
+import { LocationPoint } from '../types';
+
+export type TrackFileFormat = 'gpx' | 'tcx' | 'fit';
+
+export interface ParsedTrack {
+  format: TrackFileFormat;
+  name?: string;
+  points: LocationPoint[];
+}
+
+// Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z)
+const FIT_EPOCH_OFFSET = 631065600;
+const FIT_RECORD_MESSAGE = 20;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+// Detect the file format from its extension
+export function getTrackFileFormat(fileName: string): TrackFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx' || extension === 'tcx' || extension === 'fit') {
+    return extension;
+  }
+  return null;
+}
+
+// Parse an XML string and fail loudly on malformed documents
+function parseXml(content: string, label: string): Document {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid ${label} file: the XML could not be parsed`);
+  }
+  return doc;
+}
+
+// Text content of the first descendant with the given local name, in any namespace
+function childText(element: Element, localName: string): string | undefined {
+  const child = element.getElementsByTagNameNS('*', localName)[0];
+  return child?.textContent?.trim() || undefined;
+}
+
+// Build a location point, rejecting coordinates or times that cannot be used
+function toLocationPoint(
+  latitude: number,
+  longitude: number,
+  timestamp: number,
+  speed: number | undefined,
+  altitude: number | undefined,
+  label: string,
+  index: number
+): LocationPoint {
+  if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90 ||
+      !Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    throw new Error(`Invalid ${label} file: point ${index + 1} has invalid coordinates`);
+  }
+  if (!Number.isFinite(timestamp)) {
+    throw new Error(`Invalid ${label} file: point ${index + 1} has no valid time`);
+  }
+
+  return {
+    latitude,
+    longitude,
+    timestamp,
+    speed: speed !== undefined && Number.isFinite(speed) ? speed : undefined,
+    altitude: altitude !== undefined && Number.isFinite(altitude) ? altitude : undefined
+  };
+}
+
+// Sort points chronologically and make sure there is a usable route
+function finalizePoints(points: LocationPoint[], label: string): LocationPoint[] {
+  if (points.length < 2) {
+    throw new Error(`Invalid ${label} file: at least two track points are required`);
+  }
+  return [...points].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Parse a GPX 1.0/1.1 document into track points
+export function parseGpx(content: string): ParsedTrack {
+  const doc = parseXml(content, 'GPX');
+  if (doc.documentElement.localName !== 'gpx') {
+    throw new Error('Invalid GPX file: missing <gpx> root element');
+  }
+
+  const trackPoints = Array.from(doc.getElementsByTagNameNS('*', 'trkpt'));
+  const points = trackPoints.map((element, index) => {
+    const speed = childText(element, 'speed');
+    const elevation = childText(element, 'ele');
+    return toLocationPoint(
+      parseFloat(element.getAttribute('lat') ?? ''),
+      parseFloat(element.getAttribute('lon') ?? ''),
+      Date.parse(childText(element, 'time') ?? ''),
+      speed !== undefined ? parseFloat(speed) : undefined,
+      elevation !== undefined ? parseFloat(elevation) : undefined,
+      'GPX',
+      index
+    );
+  });
+
+  const track = doc.getElementsByTagNameNS('*', 'trk')[0];
+  return {
+    format: 'gpx',
+    name: track ? childText(track, 'name') : undefined,
+    points: finalizePoints(points, 'GPX')
+  };
+}
+
+// Parse a Garmin TCX document into track points
+export function parseTcx(content: string): ParsedTrack {
+  const doc = parseXml(content, 'TCX');
+  if (doc.documentElement.localName !== 'TrainingCenterDatabase') {
+    throw new Error('Invalid TCX file: missing <TrainingCenterDatabase> root element');
+  }
+
+  // TCX records heart-rate-only samples without a position, so those are skipped
+  const trackPoints = Array.from(doc.getElementsByTagNameNS('*', 'Trackpoint'))
+    .filter(element => element.getElementsByTagNameNS('*', 'Position').length > 0);
+
+  const points = trackPoints.map((element, index) => {
+    const speed = childText(element, 'Speed');
+    const altitude = childText(element, 'AltitudeMeters');
+    return toLocationPoint(
+      parseFloat(childText(element, 'LatitudeDegrees') ?? ''),
+      parseFloat(childText(element, 'LongitudeDegrees') ?? ''),
+      Date.parse(childText(element, 'Time') ?? ''),
+      speed !== undefined ? parseFloat(speed) : undefined,
+      altitude !== undefined ? parseFloat(altitude) : undefined,
+      'TCX',
+      index
+    );
+  });
+
+  const activity = doc.getElementsByTagNameNS('*', 'Activity')[0];
+  return {
+    format: 'tcx',
+    name: activity ? childText(activity, 'Id') : undefined,
+    points: finalizePoints(points, 'TCX')
+  };
+}
+
+interface FitFieldDefinition {
+  fieldNumber: number;
+  size: number;
+}
+
+interface FitMessageDefinition {
+  globalMessageNumber: number;
+  littleEndian: boolean;
+  fields: FitFieldDefinition[];
+  developerDataSize: number;
+}
+
+// Read an unsigned or signed integer field of 1, 2 or 4 bytes
+function readFitInteger(view: DataView, offset: number, size: number, littleEndian: boolean, signed: boolean): number | undefined {
+  switch (size) {
+    case 1:
+      return signed ? view.getInt8(offset) : view.getUint8(offset);
+    case 2:
+      return signed ? view.getInt16(offset, littleEndian) : view.getUint16(offset, littleEndian);
+    case 4:
+      return signed ? view.getInt32(offset, littleEndian) : view.getUint32(offset, littleEndian);
+    default:
+      return undefined;
+  }
+}
+
+// Parse the record messages of a FIT activity file ("FIT-lite": position, time, speed and altitude only)
+export function parseFit(data: ArrayBuffer): ParsedTrack {
+  const view = new DataView(data);
+  if (data.byteLength < 12) {
+    throw new Error('Invalid FIT file: the file is too short');
+  }
+
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const signature = String.fromCharCode(view.getUint8(8), view.getUint8(9), view.getUint8(10), view.getUint8(11));
+  if (signature !== '.FIT' || headerSize < 12 || headerSize + dataSize > data.byteLength) {
+    throw new Error('Invalid FIT file: missing or corrupt FIT header');
+  }
+
+  const definitions = new Map<number, FitMessageDefinition>();
+  const points: LocationPoint[] = [];
+  let lastTimestamp: number | undefined;
+  let offset = headerSize;
+  const end = headerSize + dataSize;
+
+  try {
+    while (offset < end) {
+      const recordHeader = view.getUint8(offset++);
+      let localMessageType: number;
+      let compressedTimestamp: number | undefined;
+
+      if (recordHeader & 0x80) {
+        // Compressed timestamp header: a 5-bit offset from the last full timestamp
+        localMessageType = (recordHeader >> 5) & 0x03;
+        const timeOffset = recordHeader & 0x1f;
+        if (lastTimestamp !== undefined) {
+          const base = lastTimestamp & ~0x1f;
+          compressedTimestamp = timeOffset >= (lastTimestamp & 0x1f) ? base + timeOffset : base + timeOffset + 0x20;
+          lastTimestamp = compressedTimestamp;
+        }
+      } else if (recordHeader & 0x40) {
+        // Definition message
+        localMessageType = recordHeader & 0x0f;
+        const hasDeveloperData = (recordHeader & 0x20) !== 0;
+        const littleEndian = view.getUint8(offset + 1) === 0;
+        const globalMessageNumber = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = view.getUint8(offset + 4);
+        offset += 5;
+
+        const fields: FitFieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++) {
+          fields.push({ fieldNumber: view.getUint8(offset), size: view.getUint8(offset + 1) });
+          offset += 3;
+        }
+
+        let developerDataSize = 0;
+        if (hasDeveloperData) {
+          const developerFieldCount = view.getUint8(offset++);
+          for (let i = 0; i < developerFieldCount; i++) {
+            developerDataSize += view.getUint8(offset + 1);
+            offset += 3;
+          }
+        }
+
+        definitions.set(localMessageType, { globalMessageNumber, littleEndian, fields, developerDataSize });
+        continue;
+      } else {
+        localMessageType = recordHeader & 0x0f;
+      }
+
+      // Data message
+      const definition = definitions.get(localMessageType);
+      if (!definition) {
+        throw new Error(`Invalid FIT file: data message without definition at byte ${offset - 1}`);
+      }
+
+      let latitude: number | undefined;
+      let longitude: number | undefined;
+      let speed: number | undefined;
+      let altitude: number | undefined;
+      let timestamp = compressedTimestamp;
+
+      for (const field of definition.fields) {
+        const { fieldNumber, size } = field;
+        const signed = fieldNumber === 0 || fieldNumber === 1;
+        const value = readFitInteger(view, offset, size, definition.littleEndian, signed);
+        offset += size;
+        if (value === undefined) continue;
+
+        if (fieldNumber === 253 && value !== 0xffffffff) {
+          timestamp = value;
+          lastTimestamp = value;
+        } else if (definition.globalMessageNumber === FIT_RECORD_MESSAGE) {
+          if (fieldNumber === 0 && value !== 0x7fffffff) latitude = value * SEMICIRCLES_TO_DEGREES;
+          if (fieldNumber === 1 && value !== 0x7fffffff) longitude = value * SEMICIRCLES_TO_DEGREES;
+          if (fieldNumber === 6 && size === 2 && value !== 0xffff && speed === undefined) speed = value / 1000;
+          if (fieldNumber === 73 && size === 4 && value !== 0xffffffff) speed = value / 1000;
+          // Altitude is stored with scale 5 and offset 500 m
+          if (fieldNumber === 2 && size === 2 && value !== 0xffff && altitude === undefined) altitude = value / 5 - 500;
+          if (fieldNumber === 78 && size === 4 && value !== 0xffffffff) altitude = value / 5 - 500;
+        }
+      }
+      offset += definition.developerDataSize;
+
+      if (definition.globalMessageNumber === FIT_RECORD_MESSAGE &&
+          latitude !== undefined && longitude !== undefined && timestamp !== undefined) {
+        points.push(toLocationPoint(
+          latitude,
+          longitude,
+          (timestamp + FIT_EPOCH_OFFSET) * 1000,
+          speed,
+          altitude,
+          'FIT',
+          points.length
+        ));
+      }
+    }
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error('Invalid FIT file: the file ends in the middle of a message');
+    }
+    throw error;
+  }
+
+  return {
+    format: 'fit',
+    points: finalizePoints(points, 'FIT')
+  };
+}
+
+// Parse a GPX, TCX or FIT file based on its extension
+export function parseTrackFile(fileName: string, data: ArrayBuffer): ParsedTrack {
+  const format = getTrackFileFormat(fileName);
+
+  switch (format) {
+    case 'gpx':
+      return parseGpx(new TextDecoder().decode(data));
+    case 'tcx':
+      return parseTcx(new TextDecoder().decode(data));
+    case 'fit':
+      return parseFit(data);
+    default:
+      throw new Error(`Unsupported file type: ${fileName}`);
+  }
+}
@@ -0,0 +1,118 @@
+export interface WriteBufferOptions {
+  maxItems: number; // flush as soon as this many items are waiting
+  maxDelay: number; // in milliseconds, flush items that have waited this long
+  retryBaseDelay: number; // in milliseconds, doubled after every failed flush
+  retryMaxDelay: number; // in milliseconds
+}
+
+export interface WriteBufferStatus {
+  pending: number; // items not written yet, including those of a flush in progress
+  failures: number; // failed flushes in a row; non-zero means the pending items are at risk
+  lastError: Error | null;
+}
+
+const DEFAULT_OPTIONS: WriteBufferOptions = {
+  maxItems: 20,
+  maxDelay: 5000,
+  retryBaseDelay: 1000,
+  retryMaxDelay: 30 * 1000
+};
+
+// Collects items and writes them in batches, so a stream of small writes becomes a few large ones.
+// A failed batch is kept in front of newer items and retried with a growing delay until it succeeds.
+export class WriteBuffer<T> {
+  private write: (items: T[]) => Promise<void>;
+  private onStatusChange: (status: WriteBufferStatus) => void;
+  private options: WriteBufferOptions;
+  private items: T[] = [];
+  private inFlight: Promise<void> | null = null;
+  private inFlightCount = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private failures = 0;
+  private lastError: Error | null = null;
+
+  constructor(
+    write: (items: T[]) => Promise<void>,
+    onStatusChange: (status: WriteBufferStatus) => void = () => {},
+    options: Partial<WriteBufferOptions> = {}
+  ) {
+    this.write = write;
+    this.onStatusChange = onStatusChange;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  getStatus(): WriteBufferStatus {
+    return {
+      pending: this.items.length + this.inFlightCount,
+      failures: this.failures,
+      lastError: this.lastError
+    };
+  }
+
+  add(item: T): void {
+    this.items.push(item);
+
+    // While failing, the retry timer decides when to write next
+    if (this.failures > 0) {
+      this.onStatusChange(this.getStatus());
+    } else if (this.items.length >= this.options.maxItems) {
+      this.flush().catch(() => {});
+    } else if (!this.timer) {
+      this.schedule(this.options.maxDelay);
+    }
+  }
+
+  // Write everything added so far; rejects if the items could not be written, they stay buffered
+  async flush(): Promise<void> {
+    this.clearTimer();
+
+    // Items added during a running flush go into the next batch
+    while (this.inFlight) {
+      await this.inFlight.catch(() => {});
+    }
+    if (this.items.length === 0) return;
+
+    const batch = this.items;
+    this.items = [];
+    this.inFlightCount = batch.length;
+    this.inFlight = this.write(batch);
+
+    try {
+      await this.inFlight;
+      this.failures = 0;
+      this.lastError = null;
+    } catch (error) {
+      this.items = [...batch, ...this.items];
+      this.failures++;
+      this.lastError = error instanceof Error ? error : new Error(String(error));
+      this.schedule(Math.min(
+        this.options.retryMaxDelay,
+        this.options.retryBaseDelay * 2 ** (this.failures - 1)
+      ));
+      throw this.lastError;
+    } finally {
+      this.inFlight = null;
+      this.inFlightCount = 0;
+      this.onStatusChange(this.getStatus());
+    }
+
+    if (this.items.length > 0) {
+      this.schedule(this.options.maxDelay);
+    }
+  }
+
+  private schedule(delay: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(error => console.error('Error writing buffered items:', error));
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}